@@ -2,22 +2,94 @@
 
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 
-import { animateLayouts } from "../lib/magicMove/animate";
+import { animateLayouts, type TransitionPhases } from "../lib/magicMove/animate";
 import { drawCodeFrame } from "../lib/magicMove/canvasRenderer";
 import {
   calculateCanvasHeight,
   layoutTokenLinesToCanvas,
   makeDefaultLayoutConfig,
 } from "../lib/magicMove/codeLayout";
-import type { LayoutResult } from "../lib/magicMove/codeLayout";
+import type { CanvasLayoutConfig, FrameSize, LayoutResult } from "../lib/magicMove/codeLayout";
+import {
+  IDENTITY_CAMERA,
+  changedLines,
+  computeRestingCamera,
+  interpolateCamera,
+  type Camera,
+  type FrameMode,
+} from "../lib/magicMove/camera";
+import { resolveEasing, type EasingSpec } from "../lib/magicMove/easing";
 import {
   getThemeVariant,
   shikiTokenizeToLines,
   type ShikiThemeChoice,
 } from "../lib/magicMove/shikiHighlighter";
+import {
+  DEFAULT_DIM_OPACITY,
+  interpolateFocusBars,
+  parseFocusSteps,
+  type LineFocus,
+} from "../lib/magicMove/focus";
 import type { MagicMoveStep, SimpleStep } from "../lib/magicMove/types";
+import {
+  buildStops,
+  buildTimeline,
+  segmentAt,
+  stopIndexAt,
+  adjacentStepMs,
+  advancePlayhead,
+  MAX_DURATION_MS,
+  type LoopMode,
+  type TimelineSegment,
+} from "../lib/magicMove/timeline";
 import { recordCanvasToWebm } from "../lib/video/recordCanvas";
-import { convertWebmToMp4, terminateFFmpeg } from "../lib/video/converter";
+import { convertWebmToMp4, loadFFmpeg, terminateFFmpeg } from "../lib/video/converter";
+import { canEncodeFormat, encodeCanvasFrames } from "../lib/video/encodeFrames";
+import {
+  DEFAULT_ANIMATED_IMAGE_OPTIONS,
+  encodeAnimatedImage,
+  type AnimatedImageOptions,
+} from "../lib/video/animatedImage";
+import { encodeImageSequence, type ImageSequenceMode } from "../lib/video/imageSequence";
+import { isAnimatedImageFormat, type ExportFormat } from "../lib/video/formats";
+import {
+  DEFAULT_ENCODER_SETTINGS,
+  INTERMEDIATE_WEBM_BITRATE,
+  mp4NeedsFFmpeg,
+  type EncoderSettings,
+} from "../lib/video/encoderSettings";
+import {
+  DEFAULT_AUDIO_SETTINGS,
+  SOUNDTRACK_FORMAT,
+  hasAudio,
+  renderSoundtrack,
+  type AudioSettings,
+} from "../lib/video/soundtrack";
+import {
+  PROJECT_SCHEMA_VERSION,
+  createProject,
+  makeDefaultProjectSettings,
+  uniqueProjectName,
+  type Project,
+  type ProjectSettings,
+  type ProjectSummary,
+} from "../lib/project/project";
+import {
+  parseProjectFile,
+  projectFileName,
+  serializeProjectFile,
+  type ProjectFileContent,
+} from "../lib/project/projectFile";
+import { createShareUrl, readShareHash } from "../lib/project/shareLink";
+import { formatSlidevMagicMove, parseSlidevMagicMove } from "../lib/project/slidev";
+import {
+  deleteProject,
+  getLastProjectId,
+  listProjects,
+  loadProject,
+  saveProject,
+  setLastProjectId,
+} from "../lib/project/storage";
 import { DEFAULT_STEPS } from "../lib/constants";
 
 import { ResizableHandle, ResizablePanelGroup } from "@/components/ui/resizable";
@@ -29,56 +101,221 @@ type StepLayout = {
   tokenLineCount: number;
   startLine: number;
   showLineNumbers: boolean;
+  // One entry per focus state; a step without highlights has a single unfocused state.
+  focusStates: LineFocus[];
+  caption?: string;
 };
 
+// Canvas height for the frame mode. Auto-fit grows to the longest step; the camera
+// mode keeps the configured frame and pans instead.
+function frameHeight(
+  stepLayouts: StepLayout[],
+  frameMode: FrameMode,
+  frameSize: FrameSize,
+): number {
+  const cfg = makeDefaultLayoutConfig(frameSize);
+  if (frameMode === "camera") return cfg.canvasHeight;
+  const maxLineCount = Math.max(...stepLayouts.map((s) => s.tokenLineCount));
+  const height = calculateCanvasHeight({
+    lineCount: maxLineCount,
+    lineHeight: cfg.lineHeight,
+    paddingY: cfg.paddingY,
+    minHeight: frameSize.height, // Never shorter than the chosen resolution
+  });
+  // Scaled line heights can be odd; H.264 (yuv420p) needs even dimensions
+  return height + (height % 2);
+}
+
+function focusAt(s: StepLayout, focusIndex: number): LineFocus {
+  return s.focusStates[Math.min(focusIndex, s.focusStates.length - 1)]!;
+}
+
+const THUMBNAIL_WIDTH = 192;
+
+function drawStopAtRest(
+  ctx: CanvasRenderingContext2D,
+  config: CanvasLayoutConfig,
+  s: StepLayout,
+  focusIndex: number,
+  theme: ShikiThemeChoice,
+  camera?: Camera,
+) {
+  drawCodeFrame({
+    ctx,
+    config,
+    layout: s.layout,
+    theme: getThemeVariant(theme),
+    showLineNumbers: s.showLineNumbers,
+    startLine: s.startLine,
+    lineCount: s.tokenLineCount,
+    focus: focusAt(s, focusIndex),
+    camera,
+    captions: s.caption ? [{ text: s.caption, opacity: 1 }] : undefined,
+  });
+}
+
+// Captions during a transition: unchanged text stays, different text cross-fades
+function transitionCaptions(a: StepLayout, b: StepLayout, eased: number) {
+  if (a.caption === b.caption) {
+    return a.caption ? [{ text: a.caption, opacity: 1 }] : undefined;
+  }
+  return [
+    ...(a.caption ? [{ text: a.caption, opacity: 1 - eased }] : []),
+    ...(b.caption ? [{ text: b.caption, opacity: eased }] : []),
+  ];
+}
+
+const DEFAULT_SETTINGS = makeDefaultProjectSettings();
+
+const AUTOSAVE_DELAY_MS = 500;
+
 export default function Home() {
   const [simpleSteps, setSimpleSteps] = useState<SimpleStep[]>(DEFAULT_STEPS);
-  const [selectedLang, setSelectedLang] = useState<string>("typescript");
-  const [simpleShowLineNumbers, setSimpleShowLineNumbers] = useState<boolean>(true);
-  const [simpleStartLine, setSimpleStartLine] = useState<number>(1);
+  const [selectedLang, setSelectedLang] = useState<string>(DEFAULT_SETTINGS.lang);
+  const [simpleShowLineNumbers, setSimpleShowLineNumbers] = useState<boolean>(
+    DEFAULT_SETTINGS.showLineNumbers,
+  );
+  const [simpleStartLine, setSimpleStartLine] = useState<number>(DEFAULT_SETTINGS.startLine);
+  const [dimOpacity, setDimOpacity] = useState<number>(DEFAULT_SETTINGS.dimOpacity);
+  const [highlightBar, setHighlightBar] = useState<boolean>(DEFAULT_SETTINGS.highlightBar);
+
+  const [theme, setTheme] = useState<ShikiThemeChoice>(DEFAULT_SETTINGS.theme);
+  const [fps, setFps] = useState<number>(DEFAULT_SETTINGS.fps);
+  const [transitionMs, setTransitionMs] = useState<number>(DEFAULT_SETTINGS.transitionMs);
+  const [phases, setPhases] = useState<TransitionPhases>(DEFAULT_SETTINGS.phases);
+  const [easing, setEasing] = useState<EasingSpec>(DEFAULT_SETTINGS.easing);
+  const [startHoldMs, setStartHoldMs] = useState<number>(DEFAULT_SETTINGS.startHoldMs);
+  const [betweenHoldMs, setBetweenHoldMs] = useState<number>(DEFAULT_SETTINGS.betweenHoldMs);
+  const [endHoldMs, setEndHoldMs] = useState<number>(DEFAULT_SETTINGS.endHoldMs);
+  const [frameMode, setFrameMode] = useState<FrameMode>(DEFAULT_SETTINGS.frameMode);
+  const [frameSize, setFrameSize] = useState<FrameSize>(DEFAULT_SETTINGS.frameSize);
 
-  const [theme, setTheme] = useState<ShikiThemeChoice>("vesper");
-  const [fps, setFps] = useState<number>(60);
-  const [transitionMs, setTransitionMs] = useState<number>(800);
-  const [startHoldMs, setStartHoldMs] = useState<number>(500);
-  const [betweenHoldMs, setBetweenHoldMs] = useState<number>(200);
-  const [endHoldMs, setEndHoldMs] = useState<number>(500);
+  // Open project; null until the library has loaded (nothing is saved before that)
+  const [project, setProject] = useState<Pick<Project, "id" | "name" | "createdAt"> | null>(null);
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const saveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const pendingSaveRef = useRef<Project | null>(null);
+  // Set when a project was just loaded, so opening it does not count as an edit
+  const skipSaveRef = useRef(false);
+
+  const projectSettings = useMemo<ProjectSettings>(
+    () => ({
+      lang: selectedLang,
+      theme,
+      showLineNumbers: simpleShowLineNumbers,
+      startLine: simpleStartLine,
+      dimOpacity,
+      highlightBar,
+      fps,
+      transitionMs,
+      phases,
+      easing,
+      startHoldMs,
+      betweenHoldMs,
+      endHoldMs,
+      frameMode,
+      frameSize,
+    }),
+    [
+      selectedLang,
+      theme,
+      simpleShowLineNumbers,
+      simpleStartLine,
+      dimOpacity,
+      highlightBar,
+      fps,
+      transitionMs,
+      phases,
+      easing,
+      startHoldMs,
+      betweenHoldMs,
+      endHoldMs,
+      frameMode,
+      frameSize,
+    ],
+  );
+
+  // Only the fields that change what a step draws. Timing edits (holds, transitions,
+  // easing, narration) leave this string alone, so they do not redo the layouts.
+  const renderedStepsKey = JSON.stringify(
+    simpleSteps.map(({ code, lang, meta, caption }) => ({ code, lang, meta, caption })),
+  );
 
   // Compute steps from simple mode
   const steps = useMemo<MagicMoveStep[]>(() => {
-    return simpleSteps.map((step) => ({
-      lang: selectedLang,
+    const rendered = JSON.parse(renderedStepsKey) as Pick<
+      SimpleStep,
+      "code" | "lang" | "meta" | "caption"
+    >[];
+    return rendered.map((step) => ({
+      lang: step.lang ?? selectedLang,
       code: step.code,
       meta: {
-        lines: simpleShowLineNumbers,
-        startLine: simpleStartLine,
+        lines: step.meta?.lines ?? simpleShowLineNumbers,
+        startLine: step.meta?.startLine ?? simpleStartLine,
+        highlight: step.meta?.highlight,
+        dimOpacity: step.meta?.dimOpacity ?? dimOpacity,
+        highlightBar: step.meta?.highlightBar ?? highlightBar,
       },
+      caption: step.caption?.trim() || undefined,
     }));
-  }, [simpleSteps, selectedLang, simpleShowLineNumbers, simpleStartLine]);
+  }, [
+    renderedStepsKey,
+    selectedLang,
+    simpleShowLineNumbers,
+    simpleStartLine,
+    dimOpacity,
+    highlightBar,
+  ]);
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
   const [stepLayouts, setStepLayouts] = useState<StepLayout[] | null>(null);
   const [layoutError, setLayoutError] = useState<string | null>(null);
 
   const [isPlaying, setIsPlaying] = useState(false);
   const [playheadMs, setPlayheadMs] = useState(0);
+  const [playbackRate, setPlaybackRate] = useState(1);
+  const [loopMode, setLoopMode] = useState<LoopMode>("loop");
+  // 1 forward, -1 backward (J key, ping-pong)
+  const directionRef = useRef<-1 | 1>(1);
+  const playheadRef = useRef(0);
   const rafRef = useRef<number | null>(null);
   const lastFrameRef = useRef<number | null>(null);
+  const exportAbortRef = useRef<AbortController | null>(null);
 
   const [isExporting, setIsExporting] = useState(false);
   const [exportPhase, setExportPhase] = useState<"recording" | "saving" | null>(null);
   const [exportProgress, setExportProgress] = useState<number>(0);
+  const [animatedImageOptions, setAnimatedImageOptions] = useState<AnimatedImageOptions>(
+    DEFAULT_ANIMATED_IMAGE_OPTIONS,
+  );
+  const [imageSequenceMode, setImageSequenceMode] = useState<ImageSequenceMode>("steps");
+  const [encoderSettings, setEncoderSettings] = useState<EncoderSettings>(DEFAULT_ENCODER_SETTINGS);
+  const [audioSettings, setAudioSettings] = useState<AudioSettings>(DEFAULT_AUDIO_SETTINGS);
   const [downloadUrl, setDownloadUrl] = useState<string | null>(null);
 
-  const timeline = useMemo(() => {
-    const stepCount = steps.length;
-    const startHold = startHoldMs;
-    const betweenHold = betweenHoldMs;
-    const endHold = endHoldMs;
-    if (stepCount <= 1) return { totalMs: startHold + endHold, startHold, betweenHold, endHold };
-    const transitions = stepCount - 1;
-    const totalMs = startHold + transitions * transitionMs + transitions * betweenHold + endHold;
-    return { totalMs, startHold, betweenHold, endHold };
-  }, [steps.length, transitionMs, startHoldMs, betweenHoldMs, endHoldMs]);
+  // Consecutive stops of the same step only move the focus; the code itself stays put.
+  const stops = useMemo(
+    () => buildStops(steps.map((step) => parseFocusSteps(step.meta.highlight ?? "").states.length)),
+    [steps],
+  );
+  const timeline = useMemo(
+    () =>
+      buildTimeline({
+        stops,
+        steps: simpleSteps.map((step) => ({
+          holdMs: step.holdMs,
+          transitionMs: step.transitionMs,
+          easing: step.easing,
+          narration: step.narration,
+        })),
+        startHoldMs,
+        betweenHoldMs,
+        endHoldMs,
+        transitionMs,
+        easing,
+      }),
+    [stops, simpleSteps, transitionMs, easing, startHoldMs, betweenHoldMs, endHoldMs],
+  );
 
   useEffect(() => {
     let cancelled = false;
@@ -98,7 +335,7 @@ export default function Home() {
           theme,
         });
 
-        const cfg = makeDefaultLayoutConfig();
+        const cfg = makeDefaultLayoutConfig(frameSize);
         cfg.showLineNumbers = step.meta.lines;
         cfg.startLine = step.meta.startLine;
 
@@ -115,6 +352,13 @@ export default function Home() {
           tokenLineCount: lines.length,
           startLine: cfg.startLine,
           showLineNumbers: cfg.showLineNumbers,
+          // Invalid ranges are reported in the step editor; render them unfocused
+          focusStates: parseFocusSteps(step.meta.highlight ?? "").states.map((lines) => ({
+            lines,
+            dimOpacity: step.meta.dimOpacity ?? DEFAULT_DIM_OPACITY,
+            highlightBar: step.meta.highlightBar ?? false,
+          })),
+          caption: step.caption,
         });
       }
 
@@ -128,7 +372,7 @@ export default function Home() {
     return () => {
       cancelled = true;
     };
-  }, [steps, theme]);
+  }, [steps, theme, frameSize]);
 
   // Clear outdated download URL when settings change
   useEffect(() => {
@@ -136,26 +380,83 @@ export default function Home() {
       URL.revokeObjectURL(downloadUrl);
       setDownloadUrl(null);
     }
-  }, [steps, theme, fps, transitionMs, startHoldMs, betweenHoldMs, endHoldMs]); // Only those that affect the video content
+  }, [
+    steps,
+    simpleSteps,
+    theme,
+    frameMode,
+    frameSize,
+    fps,
+    transitionMs,
+    phases,
+    easing,
+    startHoldMs,
+    betweenHoldMs,
+    endHoldMs,
+    encoderSettings,
+    animatedImageOptions,
+    imageSequenceMode,
+    audioSettings,
+  ]); // Only those that affect the video content
+
+  // Resting camera of every timeline stop (camera frame mode only)
+  const stopCameras = useMemo(() => {
+    if (frameMode !== "camera" || !stepLayouts) return null;
+    const cfg = makeDefaultLayoutConfig(frameSize);
+    return timeline.stops.map((stop) => {
+      const s = stepLayouts[stop.stepIndex];
+      if (!s) return IDENTITY_CAMERA;
+      // The first focus state of a step frames what changed on the way in
+      const prev = stop.focusIndex === 0 ? stepLayouts[stop.stepIndex - 1] : undefined;
+      return computeRestingCamera({
+        layout: s.layout,
+        lineCount: s.tokenLineCount,
+        config: cfg,
+        focusLines: focusAt(s, stop.focusIndex).lines,
+        changed: prev ? changedLines(prev.layout, s.layout) : undefined,
+      });
+    });
+  }, [frameMode, frameSize, stepLayouts, timeline.stops]);
 
+  // Small resting frame of every stop for the timeline track
+  const [thumbnails, setThumbnails] = useState<string[]>([]);
+  useEffect(() => {
+    if (!stepLayouts || stepLayouts.length === 0) return;
+    const full = document.createElement("canvas");
+    const cfg = makeDefaultLayoutConfig(frameSize);
+    full.width = cfg.canvasWidth;
+    full.height = frameHeight(stepLayouts, frameMode, frameSize);
+    cfg.canvasHeight = full.height;
+    const thumb = document.createElement("canvas");
+    thumb.width = THUMBNAIL_WIDTH;
+    thumb.height = Math.max(1, Math.round((full.height * THUMBNAIL_WIDTH) / full.width));
+    const ctx = full.getContext("2d");
+    const thumbCtx = thumb.getContext("2d");
+    if (!ctx || !thumbCtx) return;
+
+    setThumbnails(
+      timeline.stops.map((stop, k) => {
+        const s = stepLayouts[stop.stepIndex];
+        if (!s) return "";
+        drawStopAtRest(ctx, cfg, s, stop.focusIndex, theme, stopCameras?.[k]);
+        thumbCtx.drawImage(full, 0, 0, thumb.width, thumb.height);
+        return thumb.toDataURL("image/jpeg", 0.8);
+      }),
+    );
+  }, [stepLayouts, timeline.stops, theme, frameMode, frameSize, stopCameras]);
+
+  // Draws the timeline at `ms`, or stop `restingStop` at rest when given
   const renderAt = useCallback(
-    (ms: number) => {
+    (ms: number, restingStop?: number) => {
       const canvas = canvasRef.current;
       if (!canvas || !stepLayouts || stepLayouts.length === 0) return;
       const ctx = canvas.getContext("2d");
       if (!ctx) return;
 
-      const cfg = makeDefaultLayoutConfig();
+      const cfg = makeDefaultLayoutConfig(frameSize);
       canvas.width = cfg.canvasWidth;
 
-      // Calculate dynamic height based on maximum line count across all steps
-      const maxLineCount = Math.max(...stepLayouts.map((s) => s.tokenLineCount));
-      const calculatedHeight = calculateCanvasHeight({
-        lineCount: maxLineCount,
-        lineHeight: cfg.lineHeight,
-        paddingY: cfg.paddingY,
-        minHeight: 1080, // Minimum Full HD height
-      });
+      const calculatedHeight = frameHeight(stepLayouts, frameMode, frameSize);
       // Only update height if it's different (avoids unnecessary resets during export)
       if (canvas.height !== calculatedHeight) {
         canvas.height = calculatedHeight;
@@ -165,88 +466,108 @@ export default function Home() {
 
       const clampMs = Math.max(0, Math.min(timeline.totalMs, ms));
 
-      const steps = stepLayouts.length;
-      if (steps === 1) {
-        const only = stepLayouts[0]!;
-        drawCodeFrame({
-          ctx,
-          config: cfg,
-          layout: only.layout,
-          theme: getThemeVariant(theme),
-          showLineNumbers: only.showLineNumbers,
-          startLine: only.startLine,
-          lineCount: only.tokenLineCount,
-        });
-        return;
-      }
-
-      let t = clampMs;
-      if (t < timeline.startHold) {
-        const first = stepLayouts[0]!;
-        drawCodeFrame({
-          ctx,
-          config: cfg,
-          layout: first.layout,
-          theme: getThemeVariant(theme),
-          showLineNumbers: first.showLineNumbers,
-          startLine: first.startLine,
-          lineCount: first.tokenLineCount,
-        });
-        return;
-      }
-      t -= timeline.startHold;
+      const drawResting = (k: number) => {
+        const stop = timeline.stops[k]!;
+        const s = stepLayouts[stop.stepIndex];
+        if (!s) return;
+        drawStopAtRest(ctx, cfg, s, stop.focusIndex, theme, stopCameras?.[k]);
+      };
 
-      for (let i = 0; i < steps - 1; i++) {
-        const a = stepLayouts[i]!;
-        const b = stepLayouts[i + 1]!;
+      // Transition from stop k to stop k + 1
+      const drawTransition = (
+        segment: Extract<TimelineSegment, { kind: "transition" }>,
+        progress: number,
+      ) => {
+        const k = segment.from;
+        const from = timeline.stops[k]!;
+        const to = timeline.stops[k + 1]!;
+        const a = stepLayouts[from.stepIndex];
+        const b = stepLayouts[to.stepIndex];
+        if (!a || !b) return;
+        const fromFocus = focusAt(a, from.focusIndex);
+        const toFocus = focusAt(b, to.focusIndex);
+        const ease = resolveEasing(segment.easing);
+        const eased = ease(Math.max(0, Math.min(1, progress)));
+        const focusBars = interpolateFocusBars(fromFocus, toFocus, eased);
+        const captions = transitionCaptions(a, b, eased);
+        const fromCamera = stopCameras?.[k];
+        const toCamera = stopCameras?.[k + 1];
+        const camera =
+          fromCamera && toCamera ? interpolateCamera(fromCamera, toCamera, eased) : undefined;
 
-        if (t <= transitionMs) {
-          const progress = transitionMs <= 0 ? 1 : t / transitionMs;
-          const animated = animateLayouts({ from: a.layout, to: b.layout, progress });
-          drawCodeFrame({
-            ctx,
-            config: cfg,
-            layout: b.layout,
-            theme: getThemeVariant(theme),
-            tokens: animated,
-            showLineNumbers: a.showLineNumbers || b.showLineNumbers,
-            startLine: b.startLine,
-            lineCount: Math.max(a.tokenLineCount, b.tokenLineCount),
-            prevLineCount: a.tokenLineCount,
-            targetLineCount: b.tokenLineCount,
-            transitionProgress: progress,
-          });
-          return;
-        }
-
-        t -= transitionMs;
-        if (t <= timeline.betweenHold) {
+        if (from.stepIndex === to.stepIndex) {
+          // Focus-only transition: same layout on both sides, so no token moves
           drawCodeFrame({
             ctx,
             config: cfg,
             layout: b.layout,
             theme: getThemeVariant(theme),
+            tokens: animateLayouts({
+              from: b.layout,
+              to: b.layout,
+              progress,
+              easing: ease,
+              fromFocus,
+              toFocus,
+            }),
             showLineNumbers: b.showLineNumbers,
             startLine: b.startLine,
             lineCount: b.tokenLineCount,
+            focusBars,
+            camera,
+            captions,
           });
           return;
         }
-        t -= timeline.betweenHold;
+
+        const animated = animateLayouts({
+          from: a.layout,
+          to: b.layout,
+          progress,
+          phases,
+          durationMs: segment.durationMs,
+          easing: ease,
+          fromFocus,
+          toFocus,
+        });
+        drawCodeFrame({
+          ctx,
+          config: cfg,
+          layout: b.layout,
+          theme: getThemeVariant(theme),
+          tokens: animated,
+          showLineNumbers: a.showLineNumbers || b.showLineNumbers,
+          startLine: b.startLine,
+          prevStartLine: a.startLine,
+          lineCount: Math.max(a.tokenLineCount, b.tokenLineCount),
+          prevLineCount: a.tokenLineCount,
+          targetLineCount: b.tokenLineCount,
+          transitionProgress: progress,
+          easing: ease,
+          focusBars,
+          camera,
+          captions,
+        });
+      };
+
+      const stops = timeline.stops;
+      if (stops.length === 0) return;
+      if (restingStop !== undefined) {
+        drawResting(Math.min(restingStop, stops.length - 1));
+        return;
       }
 
-      const last = stepLayouts[steps - 1]!;
-      drawCodeFrame({
-        ctx,
-        config: cfg,
-        layout: last.layout,
-        theme: getThemeVariant(theme),
-        showLineNumbers: last.showLineNumbers,
-        startLine: last.startLine,
-        lineCount: last.tokenLineCount,
-      });
+      const segment = segmentAt(timeline, clampMs);
+      if (!segment || segment.kind === "hold") {
+        drawResting(segment?.stop ?? 0);
+        return;
+      }
+      drawTransition(
+        segment,
+        segment.durationMs <= 0 ? 1 : (clampMs - segment.startMs) / segment.durationMs,
+      );
     },
-    [stepLayouts, theme, timeline, transitionMs],
+    [stepLayouts, theme, timeline, phases, frameMode, frameSize, stopCameras],
   );
 
   useEffect(() => {
@@ -265,11 +586,15 @@ export default function Home() {
     const tick = (now: number) => {
       const last = lastFrameRef.current ?? now;
       lastFrameRef.current = now;
-      const dt = now - last;
-      setPlayheadMs((t) => {
-        const next = t + dt;
-        return next >= timeline.totalMs ? 0 : next;
-      });
+      const dt = (now - last) * playbackRate * directionRef.current;
+      const next = advancePlayhead(playheadRef.current, dt, timeline.totalMs, loopMode);
+      directionRef.current = next.direction;
+      playheadRef.current = next.ms;
+      setPlayheadMs(next.ms);
+      if (next.ended) {
+        setIsPlaying(false);
+        return;
+      }
       rafRef.current = requestAnimationFrame(tick);
     };
 
@@ -280,7 +605,93 @@ export default function Home() {
       lastFrameRef.current = null;
       return;
     };
-  }, [isPlaying, timeline.totalMs]);
+  }, [isPlaying, timeline.totalMs, playbackRate, loopMode]);
+
+  useEffect(() => {
+    playheadRef.current = playheadMs;
+  }, [playheadMs]);
+
+  const seek = (ms: number) => {
+    setPlayheadMs(Math.max(0, Math.min(timeline.totalMs, ms)));
+  };
+
+  const play = (direction: -1 | 1) => {
+    directionRef.current = direction;
+    // Playing on from the end (or back from the start) restarts from the other edge
+    if (direction > 0 && playheadMs >= timeline.totalMs) setPlayheadMs(0);
+    if (direction < 0 && playheadMs <= 0) setPlayheadMs(timeline.totalMs);
+    setIsPlaying(true);
+  };
+
+  const onPlayPause = () => {
+    if (isPlaying) setIsPlaying(false);
+    else play(directionRef.current);
+  };
+
+  const onStepFrame = (direction: -1 | 1) => {
+    setIsPlaying(false);
+    seek(playheadMs + (direction * 1000) / fps);
+  };
+
+  const onStepJump = (direction: -1 | 1) => {
+    setIsPlaying(false);
+    seek(adjacentStepMs(timeline, playheadMs, direction));
+  };
+
+  // Player shortcuts; ignored while typing in the editors and during export.
+  // Re-bound every render so the handler sees the current playhead.
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (isExporting || !stepLayouts || e.ctrlKey || e.metaKey || e.altKey) return;
+      const target = e.target as HTMLElement | null;
+      if (target?.closest("input, textarea, select, [contenteditable='true'], [role='combobox']"))
+        return;
+
+      switch (e.key) {
+        case " ":
+          onPlayPause();
+          break;
+        case "j":
+        case "J":
+          play(-1);
+          break;
+        case "k":
+        case "K":
+          setIsPlaying(false);
+          break;
+        case "l":
+        case "L":
+          play(1);
+          break;
+        case "ArrowLeft":
+        case "ArrowRight": {
+          const direction = e.key === "ArrowLeft" ? -1 : 1;
+          if (e.shiftKey) onStepJump(direction);
+          else onStepFrame(direction);
+          break;
+        }
+        case "ArrowUp":
+          onStepJump(-1);
+          break;
+        case "ArrowDown":
+          onStepJump(1);
+          break;
+        case "Home":
+          setIsPlaying(false);
+          seek(0);
+          break;
+        case "End":
+          setIsPlaying(false);
+          seek(timeline.totalMs);
+          break;
+        default:
+          return;
+      }
+      e.preventDefault();
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  });
 
   // Cleanup blob URLs on unmount to prevent memory leaks
   useEffect(() => {
@@ -288,12 +699,27 @@ export default function Home() {
       if (downloadUrl) {
         URL.revokeObjectURL(downloadUrl);
       }
-      terminateFFmpeg();
     };
   }, [downloadUrl]);
 
+  // Only on unmount: a warmed-up FFmpeg must survive new exports
+  useEffect(() => {
+    return () => {
+      void terminateFFmpeg();
+    };
+  }, []);
+
   const canExport = !!stepLayouts && stepLayouts.length > 0;
 
+  // Size of the exported video frame (auto-fit grows with the longest step)
+  const exportSize = useMemo(
+    () => ({
+      width: makeDefaultLayoutConfig(frameSize).canvasWidth,
+      height: stepLayouts ? frameHeight(stepLayouts, frameMode, frameSize) : frameSize.height,
+    }),
+    [stepLayouts, frameMode, frameSize],
+  );
+
   // Simple mode handlers
   const addSimpleStep = () => {
     setSimpleSteps([...simpleSteps, { code: `// Step ${simpleSteps.length + 1}` }]);
@@ -304,18 +730,265 @@ export default function Home() {
     setSimpleSteps(simpleSteps.filter((_, i) => i !== index));
   };
 
-  const updateSimpleStep = (index: number, code: string) => {
-    const updated = [...simpleSteps];
-    updated[index] = { code };
-    setSimpleSteps(updated);
+  const reportStorageError = (e: unknown) => {
+    setLayoutError(e instanceof Error ? e.message : "Failed to save project");
+  };
+
+  const applyProject = (p: Project) => {
+    skipSaveRef.current = true;
+    setIsPlaying(false);
+    setPlayheadMs(0);
+    setProject({ id: p.id, name: p.name, createdAt: p.createdAt });
+    setSimpleSteps(p.steps);
+    const settings = p.settings;
+    setSelectedLang(settings.lang);
+    setTheme(settings.theme);
+    setSimpleShowLineNumbers(settings.showLineNumbers);
+    setSimpleStartLine(settings.startLine);
+    setDimOpacity(settings.dimOpacity);
+    setHighlightBar(settings.highlightBar);
+    setFps(settings.fps);
+    setTransitionMs(settings.transitionMs);
+    setPhases(settings.phases);
+    setEasing(settings.easing);
+    setStartHoldMs(settings.startHoldMs);
+    setBetweenHoldMs(settings.betweenHoldMs);
+    setEndHoldMs(settings.endHoldMs);
+    setFrameMode(settings.frameMode);
+    setFrameSize(settings.frameSize);
+    setLastProjectId(p.id);
+  };
+
+  // Writes the pending autosave now, e.g. before switching projects
+  const flushSave = async () => {
+    if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
+    saveTimerRef.current = null;
+    const pending = pendingSaveRef.current;
+    pendingSaveRef.current = null;
+    if (pending) await saveProject(pending);
+  };
+
+  const refreshProjects = async () => {
+    setProjects(await listProjects());
+  };
+
+  const onOpenProject = async (id: string) => {
+    try {
+      await flushSave();
+      const p = await loadProject(id);
+      if (!p) throw new Error("This project no longer exists");
+      applyProject(p);
+      await refreshProjects();
+    } catch (e) {
+      reportStorageError(e);
+    }
+  };
+
+  const onCreateProject = async (content?: Pick<Project, "name" | "steps" | "settings">) => {
+    try {
+      await flushSave();
+      const names = projects.map((p) => p.name);
+      const p = createProject(uniqueProjectName(content?.name ?? "Untitled", names), content);
+      await saveProject(p);
+      applyProject(p);
+      await refreshProjects();
+    } catch (e) {
+      reportStorageError(e);
+    }
+  };
+
+  const onRenameProject = async (id: string, name: string) => {
+    if (id === project?.id) {
+      setProject({ ...project, name });
+      return;
+    }
+    try {
+      const p = await loadProject(id);
+      if (p) await saveProject({ ...p, name, updatedAt: Date.now() });
+      await refreshProjects();
+    } catch (e) {
+      reportStorageError(e);
+    }
+  };
+
+  const onDuplicateProject = async (id: string) => {
+    try {
+      await flushSave();
+      const source = await loadProject(id);
+      if (source) await onCreateProject({ ...source, name: `${source.name} copy` });
+    } catch (e) {
+      reportStorageError(e);
+    }
+  };
+
+  const onDeleteProject = async (id: string) => {
+    try {
+      if (id === project?.id) {
+        // Drop unsaved edits of the deleted project instead of writing them back
+        if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
+        pendingSaveRef.current = null;
+      }
+      await deleteProject(id);
+      const remaining = await listProjects();
+      setProjects(remaining);
+      if (id !== project?.id) return;
+      if (remaining[0]) await onOpenProject(remaining[0].id);
+      else await onCreateProject();
+    } catch (e) {
+      reportStorageError(e);
+    }
+  };
+
+  const onImportProjectFile = async (file: File) => {
+    let content: Pick<Project, "name" | "steps" | "settings">;
+    try {
+      content = parseProjectFile(await file.text());
+    } catch (e) {
+      setLayoutError(`Could not import ${file.name}: ${e instanceof Error ? e.message : e}`);
+      return;
+    }
+    await onCreateProject(content);
+  };
+
+  const onExportProjectFile = () => {
+    const name = project?.name ?? "Untitled";
+    const text = serializeProjectFile({ name, steps: simpleSteps, settings: projectSettings });
+    const url = URL.createObjectURL(new Blob([text], { type: "application/json" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = projectFileName(name);
+    link.click();
+    // Revoke after the click has started the download
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  };
+
+  const onCopyShareLink = async () => {
+    const content = {
+      name: project?.name ?? "Untitled",
+      steps: simpleSteps,
+      settings: projectSettings,
+    };
+    const url = await createShareUrl(content, window.location.href);
+    await navigator.clipboard.writeText(url);
+    return url;
+  };
+
+  // Opens the project in a share link as a new project, then drops the hash so
+  // reloading does not import it again
+  const openSharedProject = async (shared: ProjectFileContent) => {
+    window.history.replaceState(null, "", window.location.pathname + window.location.search);
+    await onCreateProject(shared);
+  };
+
+  // Several projects at once (one per Slidev block); the first one opens. Storage
+  // errors are thrown like parse errors, so the calling popover reports them
+  const importProjects = async (contents: ProjectFileContent[]) => {
+    await flushSave();
+    const names = projects.map((p) => p.name);
+    const created = contents.map((content) => {
+      const p = createProject(uniqueProjectName(content.name, names), content);
+      names.push(p.name);
+      return p;
+    });
+    for (const p of created) await saveProject(p);
+    applyProject(created[0]!);
+    await refreshProjects();
+  };
+
+  // Parse and storage errors are thrown to the Slidev popover, which shows them
+  const onImportMarkdown = async (markdown: string, sourceName: string) => {
+    const blocks = parseSlidevMagicMove(markdown);
+    await importProjects(
+      blocks.map((block, i) => ({
+        name: block.title ?? (blocks.length > 1 ? `${sourceName} ${i + 1}` : sourceName),
+        steps: block.steps,
+        settings: {
+          ...projectSettings,
+          lang: block.lang,
+          showLineNumbers: block.lines ?? projectSettings.showLineNumbers,
+          startLine: block.startLine ?? projectSettings.startLine,
+        },
+      })),
+    );
+  };
+
+  const onImportGitHistory = async (history: {
+    name: string;
+    lang: string;
+    steps: SimpleStep[];
+  }) => {
+    await importProjects([
+      {
+        name: history.name,
+        steps: history.steps,
+        settings: { ...projectSettings, lang: history.lang },
+      },
+    ]);
+  };
+
+  const onCopyMarkdown = async () => {
+    await navigator.clipboard.writeText(formatSlidevMagicMove(simpleSteps, projectSettings));
+  };
+
+  const updateSimpleStep = (index: number, patch: Partial<SimpleStep>) => {
+    // Functional update: timeline drags fire many patches between renders
+    setSimpleSteps((prev) => {
+      const updated = [...prev];
+      updated[index] = { ...updated[index]!, ...patch };
+      return updated;
+    });
+  };
+
+  // Dragging a block edge in the timeline track: holds and transitions become
+  // overrides of the step they belong to.
+  const onSegmentDurationChange = (index: number, durationMs: number) => {
+    const segment = timeline.segments[index];
+    if (!segment) return;
+    const ms = Math.max(0, Math.min(MAX_DURATION_MS, Math.round(durationMs / 10) * 10));
+    const stop = timeline.stops[segment.kind === "hold" ? segment.stop : segment.from + 1];
+    if (!stop) return;
+    updateSimpleStep(
+      stop.stepIndex,
+      segment.kind === "hold" ? { holdMs: ms } : { transitionMs: ms },
+    );
   };
 
   // ... existing imports
 
-  const onExport = async (format: "webm" | "mp4") => {
+  // Warm up FFmpeg when MP4 is picked and the browser cannot encode H.264 itself
+  const onExportFormatChange = (format: ExportFormat) => {
+    if (format !== "mp4" || !canExport) return;
+    const direct = mp4NeedsFFmpeg(encoderSettings)
+      ? Promise.resolve(false)
+      : canEncodeFormat(
+          "mp4",
+          exportSize.width,
+          exportSize.height,
+          fps,
+          encoderSettings.profile,
+          hasAudio(audioSettings) || timeline.narrations.length > 0 ? SOUNDTRACK_FORMAT : undefined,
+        );
+    direct
+      .then((direct) => (direct ? undefined : loadFFmpeg()))
+      .catch((e: unknown) => {
+        setLayoutError(e instanceof Error ? e.message : "Failed to load FFmpeg");
+      });
+  };
+
+  const onCancelExport = () => {
+    exportAbortRef.current?.abort();
+  };
+
+  const onExport = async (format: ExportFormat) => {
     if (!canvasRef.current) return;
     if (!stepLayouts || stepLayouts.length === 0) return;
 
+    const controller = new AbortController();
+    exportAbortRef.current = controller;
+    const signal = controller.signal;
+
+    // Preview playback would draw over the frames being encoded
+    setIsPlaying(false);
     setIsExporting(true);
     setExportPhase("recording");
     setExportProgress(0);
@@ -323,67 +996,157 @@ export default function Home() {
     setDownloadUrl(null);
 
     const canvas = canvasRef.current;
-    const cfg = makeDefaultLayoutConfig();
-
-    // Calculate and set fixed canvas height for export (based on max line count)
-    const maxLineCount = Math.max(...stepLayouts.map((s) => s.tokenLineCount));
-    const exportHeight = calculateCanvasHeight({
-      lineCount: maxLineCount,
-      lineHeight: cfg.lineHeight,
-      paddingY: cfg.paddingY,
-      minHeight: 1080,
-    });
+    const cfg = makeDefaultLayoutConfig(frameSize);
+
+    // Set fixed canvas size for export
     canvas.width = cfg.canvasWidth;
-    canvas.height = exportHeight;
+    canvas.height = frameHeight(stepLayouts, frameMode, frameSize);
 
     const durationMs = timeline.totalMs;
-    const start = performance.now();
-    let cancelled = false;
 
-    const renderLoop = () => {
-      if (cancelled) return;
-      const elapsed = performance.now() - start;
-      renderAt(elapsed);
-      if (elapsed < durationMs) requestAnimationFrame(renderLoop);
+    // Fallback for browsers without WebCodecs: play in real time and capture the stream
+    const recordRealtime = async (bitrate: number, audio: AudioBuffer | null) => {
+      const start = performance.now();
+      let done = false;
+      const renderLoop = () => {
+        if (done) return;
+        const elapsed = performance.now() - start;
+        renderAt(elapsed);
+        if (elapsed < durationMs) requestAnimationFrame(renderLoop);
+      };
+      requestAnimationFrame(renderLoop);
+      try {
+        return await recordCanvasToWebm({
+          canvas,
+          fps,
+          durationMs,
+          bitrate,
+          audio,
+          signal,
+          onProgress: (elapsed, total) => {
+            setExportProgress(total <= 0 ? 0 : elapsed / total);
+          },
+        });
+      } finally {
+        done = true;
+      }
+    };
+
+    // Only a finished, non-cancelled export gets an object URL
+    const publish = (blob: Blob) => {
+      signal.throwIfAborted();
+      setDownloadUrl(URL.createObjectURL(blob));
     };
-    requestAnimationFrame(renderLoop);
 
     try {
-      let blob: Blob | null = await recordCanvasToWebm({
-        canvas,
-        fps,
+      if (format === "png") {
+        const zip = await encodeImageSequence({
+          canvas,
+          mode: imageSequenceMode,
+          fps,
+          durationMs,
+          stops: timeline.stops,
+          stopAt: (ms) => stopIndexAt(timeline, ms),
+          renderFrame: renderAt,
+          renderStop: (k) => renderAt(0, k),
+          onProgress: setExportProgress,
+          signal,
+        });
+        publish(zip);
+        return;
+      }
+
+      if (isAnimatedImageFormat(format)) {
+        const image = await encodeAnimatedImage({
+          canvas,
+          durationMs,
+          format,
+          // The image frame rate never exceeds the project frame rate
+          options: { ...animatedImageOptions, fps: Math.min(fps, animatedImageOptions.fps) },
+          renderFrame: renderAt,
+          onProgress: setExportProgress,
+          signal,
+        });
+        publish(image);
+        return;
+      }
+
+      // Music, narration and transition sounds are mixed up front; a transition
+      // starts when the hold of the stop before it ends.
+      const soundtrack = await renderSoundtrack({
+        settings: audioSettings,
         durationMs,
-        onProgress: (elapsed, total) => {
-          setExportProgress(total <= 0 ? 0 : elapsed / total);
-        },
+        transitionStartsMs: timeline.segments
+          .filter((s) => s.kind === "transition")
+          .map((s) => s.startMs),
+        clips: timeline.narrations,
       });
+      signal.throwIfAborted();
+      const audioTrack = soundtrack ? SOUNDTRACK_FORMAT : undefined;
 
-      if (format === "mp4") {
+      // Render frame by frame when the browser can encode the format directly;
+      // otherwise produce WebM and convert it with FFmpeg.
+      const direct =
+        (format === "webm" || !mp4NeedsFFmpeg(encoderSettings)) &&
+        (await canEncodeFormat(
+          format,
+          canvas.width,
+          canvas.height,
+          fps,
+          encoderSettings.profile,
+          audioTrack,
+        ));
+      const offline =
+        direct ||
+        (await canEncodeFormat("webm", canvas.width, canvas.height, fps, undefined, audioTrack));
+      // Final WebM uses the chosen bitrate; WebM headed for FFmpeg stays near-lossless
+      const bitrate =
+        format === "webm"
+          ? encoderSettings.webmBitrateKbps * 1000
+          : direct
+            ? encoderSettings.mp4BitrateKbps * 1000
+            : INTERMEDIATE_WEBM_BITRATE;
+      let blob: Blob | null = offline
+        ? await encodeCanvasFrames({
+            canvas,
+            fps,
+            durationMs,
+            format: direct ? format : "webm",
+            bitrate,
+            keyframeIntervalS: encoderSettings.keyframeIntervalS,
+            h264Profile: encoderSettings.profile,
+            audio: soundtrack,
+            renderFrame: renderAt,
+            onProgress: setExportProgress,
+            signal,
+          })
+        : await recordRealtime(bitrate, soundtrack);
+
+      if (format === "mp4" && !direct) {
         setExportPhase("saving");
         setExportProgress(0);
 
         const mp4Blob = await convertWebmToMp4(
-          blob!,
+          blob,
           (val) => {
             setExportProgress(val);
           },
           durationMs,
+          encoderSettings,
+          signal,
         );
-        cancelled = true;
 
-        const url = URL.createObjectURL(mp4Blob);
-        setDownloadUrl(url);
+        publish(mp4Blob);
       } else {
-        cancelled = true;
-        const url = URL.createObjectURL(blob!);
-        setDownloadUrl(url);
+        publish(blob);
       }
 
       blob = null; // Release WebM blob memory
     } catch (e) {
-      cancelled = true;
-      setLayoutError(e instanceof Error ? e.message : "Export failed");
+      // Cancelling is not an error; the UI simply returns to idle
+      if (!signal.aborted) setLayoutError(e instanceof Error ? e.message : "Export failed");
     } finally {
+      exportAbortRef.current = null;
       setIsExporting(false);
       setExportPhase(null);
       setExportProgress(0);
@@ -392,6 +1155,87 @@ export default function Home() {
     }
   };
 
+  // Restore the last project (or start the library) once on load
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      const list = await listProjects();
+      const shared = await readShareHash(window.location.hash).catch((e: unknown) => {
+        reportStorageError(e);
+        return null;
+      });
+      if (cancelled) return;
+      if (shared) {
+        window.history.replaceState(null, "", window.location.pathname + window.location.search);
+        const p = createProject(
+          uniqueProjectName(
+            shared.name,
+            list.map((item) => item.name),
+          ),
+          shared,
+        );
+        await saveProject(p);
+        if (cancelled) return;
+        applyProject(p);
+        setProjects(await listProjects());
+        return;
+      }
+      const lastId = getLastProjectId();
+      const id = list.some((p) => p.id === lastId) ? lastId : list[0]?.id;
+      const stored = id ? await loadProject(id) : null;
+      if (cancelled) return;
+      const p = stored ?? createProject("Untitled");
+      if (!stored) await saveProject(p);
+      if (cancelled) return;
+      applyProject(p);
+      setProjects(stored ? list : await listProjects());
+    })().catch((e: unknown) => {
+      if (!cancelled) reportStorageError(e);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Autosave: debounced, and flushed when the tab is hidden
+  useEffect(() => {
+    if (!project) return;
+    if (skipSaveRef.current) {
+      skipSaveRef.current = false;
+      return;
+    }
+    pendingSaveRef.current = {
+      version: PROJECT_SCHEMA_VERSION,
+      ...project,
+      updatedAt: Date.now(),
+      steps: simpleSteps,
+      settings: projectSettings,
+    };
+    if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
+    saveTimerRef.current = setTimeout(() => {
+      flushSave().then(refreshProjects).catch(reportStorageError);
+    }, AUTOSAVE_DELAY_MS);
+  }, [project, simpleSteps, projectSettings]);
+
+  // A share link pasted into the address bar of an open editor
+  useEffect(() => {
+    const onHashChange = () => {
+      readShareHash(window.location.hash)
+        .then((shared) => shared && openSharedProject(shared))
+        .catch(reportStorageError);
+    };
+    window.addEventListener("hashchange", onHashChange);
+    return () => window.removeEventListener("hashchange", onHashChange);
+  });
+
+  useEffect(() => {
+    const onHide = () => {
+      if (document.visibilityState === "hidden") void flushSave().catch(() => {});
+    };
+    document.addEventListener("visibilitychange", onHide);
+    return () => document.removeEventListener("visibilitychange", onHide);
+  });
+
   return (
     <div className="h-full flex flex-col bg-background text-foreground overflow-hidden">
       <ResizablePanelGroup direction="horizontal" className="flex-1 w-full max-w-full">
@@ -405,6 +1249,14 @@ export default function Home() {
           onShowLineNumbersChange={setSimpleShowLineNumbers}
           startLine={simpleStartLine}
           onStartLineChange={setSimpleStartLine}
+          dimOpacity={dimOpacity}
+          onDimOpacityChange={setDimOpacity}
+          highlightBar={highlightBar}
+          onHighlightBarChange={setHighlightBar}
+          frameMode={frameMode}
+          onFrameModeChange={setFrameMode}
+          frameSize={frameSize}
+          onFrameSizeChange={setFrameSize}
           fps={fps}
           onFpsChange={setFps}
           startHoldMs={startHoldMs}
@@ -413,7 +1265,22 @@ export default function Home() {
           onBetweenHoldMsChange={setBetweenHoldMs}
           endHoldMs={endHoldMs}
           onEndHoldMsChange={setEndHoldMs}
+          transitionMs={transitionMs}
           onAddStep={addSimpleStep}
+          projects={projects}
+          currentProjectId={project?.id ?? null}
+          currentProjectName={project?.name ?? "Loading…"}
+          onOpenProject={onOpenProject}
+          onCreateProject={() => onCreateProject()}
+          onRenameProject={onRenameProject}
+          onDuplicateProject={onDuplicateProject}
+          onDeleteProject={onDeleteProject}
+          onImportProjectFile={onImportProjectFile}
+          onExportProjectFile={onExportProjectFile}
+          onCopyShareLink={onCopyShareLink}
+          onImportMarkdown={onImportMarkdown}
+          onCopyMarkdown={onCopyMarkdown}
+          onImportGitHistory={onImportGitHistory}
           onRemoveStep={removeSimpleStep}
           onUpdateStep={updateSimpleStep}
         />
@@ -425,10 +1292,20 @@ export default function Home() {
           layoutError={layoutError}
           onDismissError={() => setLayoutError(null)}
           isPlaying={isPlaying}
-          onPlayPause={() => setIsPlaying(!isPlaying)}
+          onPlayPause={onPlayPause}
+          onStepFrame={onStepFrame}
+          onStepJump={onStepJump}
+          playbackRate={playbackRate}
+          onPlaybackRateChange={setPlaybackRate}
+          loopMode={loopMode}
+          onLoopModeChange={setLoopMode}
           playheadMs={playheadMs}
           totalMs={timeline.totalMs}
-          onSeek={setPlayheadMs}
+          segments={timeline.segments}
+          stops={timeline.stops}
+          thumbnails={thumbnails}
+          onSegmentDurationChange={onSegmentDurationChange}
+          onSeek={seek}
           onReset={() => {
             setIsPlaying(false);
             setPlayheadMs(0);
@@ -437,12 +1314,28 @@ export default function Home() {
           stepCount={steps.length}
           transitionMs={transitionMs}
           onTransitionMsChange={setTransitionMs}
+          phases={phases}
+          onPhasesChange={setPhases}
+          easing={easing}
+          onEasingChange={setEasing}
           downloadUrl={downloadUrl}
           isExporting={isExporting}
           exportPhase={exportPhase}
           exportProgress={exportProgress}
           onExport={onExport}
+          onExportFormatChange={onExportFormatChange}
+          onCancelExport={onCancelExport}
           canExport={canExport}
+          fps={fps}
+          animatedImageOptions={animatedImageOptions}
+          onAnimatedImageOptionsChange={setAnimatedImageOptions}
+          imageSequenceMode={imageSequenceMode}
+          onImageSequenceModeChange={setImageSequenceMode}
+          encoderSettings={encoderSettings}
+          onEncoderSettingsChange={setEncoderSettings}
+          audioSettings={audioSettings}
+          onAudioSettingsChange={setAudioSettings}
+          exportSize={exportSize}
         />
       </ResizablePanelGroup>
     </div>
@@ -0,0 +1,175 @@
+import { normalizeLang } from "../magicMove/shikiHighlighter";
+import { toHex, type GitObject } from "./pack";
+import type { GitRepository } from "./repository";
+
+export type FileRevision = {
+  commit: string;
+  // Subject line of the commit message
+  subject: string;
+  author: string;
+  // Commit time, ms since epoch
+  time: number;
+  content: string;
+};
+
+type Commit = { tree: string; parents: string[]; author: string; time: number; message: string };
+
+// Steps beyond this get hard to follow; narrow the range instead
+export const MAX_HISTORY_STEPS = 50;
+
+const decoder = new TextDecoder();
+
+async function readTyped(repo: GitRepository, oid: string, type: GitObject["type"]) {
+  const object = await repo.readObject(oid);
+  if (object.type !== type) {
+    throw new Error(`Expected a ${type} at ${oid.slice(0, 7)}, found a ${object.type}`);
+  }
+  return object.data;
+}
+
+function parseCommit(data: Uint8Array): Commit {
+  const text = decoder.decode(data);
+  const split = text.indexOf("\n\n");
+  const headers = split < 0 ? text : text.slice(0, split);
+  const commit: Commit = {
+    tree: "",
+    parents: [],
+    author: "",
+    time: 0,
+    message: split < 0 ? "" : text.slice(split + 2),
+  };
+  for (const line of headers.split("\n")) {
+    const space = line.indexOf(" ");
+    const key = line.slice(0, space);
+    const value = line.slice(space + 1);
+    if (key === "tree") commit.tree = value;
+    else if (key === "parent") commit.parents.push(value);
+    else if (key === "author") {
+      // "Name <email> 1700000000 +0100"
+      const m = /^(.*?) <[^>]*> (\d+)/.exec(value);
+      commit.author = m?.[1] ?? value;
+      commit.time = m ? Number(m[2]) * 1000 : 0;
+    }
+  }
+  return commit;
+}
+
+// Tree entries: "<mode> <name>\0<20-byte id>"
+function findTreeEntry(data: Uint8Array, name: string): { mode: string; oid: string } | null {
+  let pos = 0;
+  while (pos < data.length) {
+    const space = data.indexOf(32, pos);
+    const nul = data.indexOf(0, space);
+    const mode = decoder.decode(data.subarray(pos, space));
+    const entryName = decoder.decode(data.subarray(space + 1, nul));
+    if (entryName === name) return { mode, oid: toHex(data.subarray(nul + 1, nul + 21)) };
+    pos = nul + 21;
+  }
+  return null;
+}
+
+// Blob id of `path` in a tree, or null when the path is not a file there
+async function blobAt(repo: GitRepository, tree: string, path: string[]): Promise<string | null> {
+  let oid = tree;
+  for (let i = 0; i < path.length; i++) {
+    const entry = findTreeEntry(await readTyped(repo, oid, "tree"), path[i]!);
+    if (!entry) return null;
+    const isLast = i === path.length - 1;
+    // 40000 is a directory; files are 100644/100755 (symlinks and submodules are skipped)
+    if (isLast ? !entry.mode.startsWith("100") : entry.mode !== "40000") return null;
+    oid = entry.oid;
+  }
+  return oid;
+}
+
+/**
+ * Commit id for a revision: `HEAD`, a branch, tag or full ref name, or a
+ * (possibly abbreviated) commit hash. Annotated tags are peeled.
+ */
+export async function resolveRevision(repo: GitRepository, revision: string): Promise<string> {
+  const rev = revision.trim() || "HEAD";
+  let oid: string | null = null;
+  for (const ref of [rev, `refs/heads/${rev}`, `refs/tags/${rev}`, `refs/remotes/${rev}`]) {
+    oid = await repo.resolveRef(ref);
+    if (oid) break;
+  }
+  if (!oid && /^[0-9a-f]{4,40}$/i.test(rev)) {
+    const matches = await repo.findObjects(rev.toLowerCase());
+    if (matches.length > 1) throw new Error(`"${rev}" is ambiguous; use more characters`);
+    oid = matches[0] ?? null;
+  }
+  if (!oid) throw new Error(`Unknown revision "${rev}"`);
+
+  for (let depth = 0; depth < 5; depth++) {
+    const object = await repo.readObject(oid);
+    if (object.type === "commit") return oid;
+    if (object.type !== "tag") break;
+    const target = /^object ([0-9a-f]{40})$/m.exec(decoder.decode(object.data));
+    if (!target) break;
+    oid = target[1]!;
+  }
+  throw new Error(`"${rev}" does not point to a commit`);
+}
+
+/**
+ * Versions of a file along the first-parent history, oldest first: one per
+ * commit that changed it. Starts at `to` (default HEAD) and walks back to
+ * `from` (inclusive), to where the file was added, or until `maxSteps`
+ * versions were found. Renames are not followed.
+ */
+export async function readFileHistory(
+  repo: GitRepository,
+  opts: { path: string; from?: string; to?: string; maxSteps?: number },
+): Promise<FileRevision[]> {
+  const path = opts.path
+    .trim()
+    .replace(/^\.?\/+/, "")
+    .split("/")
+    .filter(Boolean);
+  if (path.length === 0) throw new Error("Enter the path of a file in the repository");
+  const maxSteps = opts.maxSteps ?? MAX_HISTORY_STEPS;
+  const to = await resolveRevision(repo, opts.to ?? "");
+  const from = opts.from?.trim() ? await resolveRevision(repo, opts.from) : null;
+
+  const revisions: FileRevision[] = [];
+  let oid: string | undefined = to;
+  let commit = parseCommit(await readTyped(repo, to, "commit"));
+  let blob = await blobAt(repo, commit.tree, path);
+  if (!blob) throw new Error(`${path.join("/")} does not exist at ${opts.to?.trim() || "HEAD"}`);
+
+  while (oid && blob && revisions.length < maxSteps) {
+    const parentOid: string | undefined = commit.parents[0];
+    const parent = parentOid ? parseCommit(await readTyped(repo, parentOid, "commit")) : null;
+    const parentBlob = parent ? await blobAt(repo, parent.tree, path) : null;
+
+    if (blob !== parentBlob || oid === from) {
+      const data = await readTyped(repo, blob, "blob");
+      if (data.includes(0)) throw new Error(`${path.join("/")} looks like a binary file`);
+      revisions.push({
+        commit: oid,
+        subject: commit.message.split("\n")[0]!.trim(),
+        author: commit.author,
+        time: commit.time,
+        content: decoder.decode(data).replace(/\r\n?/g, "\n").replace(/\n$/, ""),
+      });
+    }
+    if (oid === from) break;
+    oid = parentOid;
+    if (parent) commit = parent;
+    blob = parentBlob;
+  }
+
+  if (from && revisions[revisions.length - 1]?.commit !== from && revisions.length < maxSteps) {
+    throw new Error(
+      `${opts.from!.trim()} is not on the first-parent history of ${opts.to?.trim() || "HEAD"} while the file exists`,
+    );
+  }
+  return revisions.reverse();
+}
+
+// Shiki language for a path, from its extension ("src/app.ts" -> "typescript")
+export function languageForPath(path: string): string {
+  const name = path.split("/").pop() ?? "";
+  const dot = name.lastIndexOf(".");
+  return normalizeLang(dot > 0 ? name.slice(dot + 1) : "");
+}
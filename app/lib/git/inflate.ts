@@ -0,0 +1,187 @@
+/**
+ * zlib inflate (RFC 1950/1951) that reports where the stream ended. Pack files
+ * store objects back to back with no lengths, so the end of one compressed
+ * object is the start of the next; `DecompressionStream` cannot tell us that.
+ */
+
+type Huffman = { counts: Uint16Array; symbols: Uint16Array };
+
+type BitReader = { data: Uint8Array; pos: number; buf: number; count: number };
+
+const LENGTH_BASE = [
+  3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131,
+  163, 195, 227, 258,
+];
+const LENGTH_EXTRA = [
+  0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0,
+];
+const DIST_BASE = [
+  1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049,
+  3073, 4097, 6145, 8193, 12289, 16385, 24577,
+];
+const DIST_EXTRA = [
+  0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13,
+];
+// Order in which code length code lengths are stored
+const CODE_LENGTH_ORDER = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15];
+
+function buildHuffman(lengths: ArrayLike<number>): Huffman {
+  const counts = new Uint16Array(16);
+  for (let i = 0; i < lengths.length; i++) counts[lengths[i]!]!++;
+  counts[0] = 0;
+  const offsets = new Uint16Array(16);
+  for (let len = 1; len < 16; len++) offsets[len] = offsets[len - 1]! + counts[len - 1]!;
+  const symbols = new Uint16Array(lengths.length);
+  for (let i = 0; i < lengths.length; i++) {
+    if (lengths[i]) symbols[offsets[lengths[i]!]!++] = i;
+  }
+  return { counts, symbols };
+}
+
+const FIXED_LITERALS = buildHuffman(
+  Array.from({ length: 288 }, (_, i) => (i < 144 ? 8 : i < 256 ? 9 : i < 280 ? 7 : 8)),
+);
+const FIXED_DISTANCES = buildHuffman(Array.from({ length: 30 }, () => 5));
+
+function bits(r: BitReader, n: number): number {
+  while (r.count < n) {
+    if (r.pos >= r.data.length) throw new Error("Compressed data ends unexpectedly");
+    r.buf |= r.data[r.pos++]! << r.count;
+    r.count += 8;
+  }
+  const value = r.buf & ((1 << n) - 1);
+  r.buf >>>= n;
+  r.count -= n;
+  return value;
+}
+
+// Canonical Huffman decode, one bit at a time
+function decodeSymbol(r: BitReader, h: Huffman): number {
+  let code = 0;
+  let first = 0;
+  let index = 0;
+  for (let len = 1; len < 16; len++) {
+    code |= bits(r, 1);
+    const count = h.counts[len]!;
+    if (code - first < count) return h.symbols[index + code - first]!;
+    index += count;
+    first = (first + count) << 1;
+    code <<= 1;
+  }
+  throw new Error("Invalid compressed data");
+}
+
+function readDynamicTables(r: BitReader): [Huffman, Huffman] {
+  const literalCount = bits(r, 5) + 257;
+  const distanceCount = bits(r, 5) + 1;
+  const codeLengthCount = bits(r, 4) + 4;
+
+  const codeLengthLengths = new Uint8Array(19);
+  for (let i = 0; i < codeLengthCount; i++) {
+    codeLengthLengths[CODE_LENGTH_ORDER[i]!] = bits(r, 3);
+  }
+  const codeLengths = buildHuffman(codeLengthLengths);
+
+  const lengths = new Uint8Array(literalCount + distanceCount);
+  for (let i = 0; i < lengths.length; ) {
+    const symbol = decodeSymbol(r, codeLengths);
+    if (symbol < 16) {
+      lengths[i++] = symbol;
+      continue;
+    }
+    let repeat: number;
+    let value = 0;
+    if (symbol === 16) {
+      if (i === 0) throw new Error("Invalid compressed data");
+      value = lengths[i - 1]!;
+      repeat = 3 + bits(r, 2);
+    } else if (symbol === 17) {
+      repeat = 3 + bits(r, 3);
+    } else {
+      repeat = 11 + bits(r, 7);
+    }
+    if (i + repeat > lengths.length) throw new Error("Invalid compressed data");
+    lengths.fill(value, i, i + repeat);
+    i += repeat;
+  }
+  return [
+    buildHuffman(lengths.subarray(0, literalCount)),
+    buildHuffman(lengths.subarray(literalCount)),
+  ];
+}
+
+/**
+ * Inflates the zlib stream starting at `offset`. `end` is the offset just past
+ * the stream (after its Adler-32 checksum). `sizeHint` presizes the output.
+ */
+export function inflateZlib(
+  data: Uint8Array,
+  offset = 0,
+  sizeHint = 0,
+): { data: Uint8Array; end: number } {
+  const cmf = data[offset];
+  const flg = data[offset + 1];
+  if (cmf === undefined || flg === undefined || (cmf & 0x0f) !== 8 || (cmf * 256 + flg) % 31) {
+    throw new Error("Not zlib-compressed data");
+  }
+  if (flg & 0x20) throw new Error("zlib preset dictionaries are not supported");
+
+  const r: BitReader = { data, pos: offset + 2, buf: 0, count: 0 };
+  let out = new Uint8Array(Math.max(64, sizeHint));
+  let length = 0;
+  const reserve = (n: number) => {
+    if (length + n <= out.length) return;
+    const grown = new Uint8Array(Math.max(out.length * 2, length + n));
+    grown.set(out.subarray(0, length));
+    out = grown;
+  };
+
+  let final = 0;
+  while (!final) {
+    final = bits(r, 1);
+    const type = bits(r, 2);
+
+    if (type === 0) {
+      // Stored block: skip to the byte boundary (fewer than 8 bits are buffered)
+      r.buf = 0;
+      r.count = 0;
+      const len = data[r.pos]! | (data[r.pos + 1]! << 8);
+      const nlen = data[r.pos + 2]! | (data[r.pos + 3]! << 8);
+      if ((len ^ 0xffff) !== nlen) throw new Error("Invalid compressed data");
+      r.pos += 4;
+      if (r.pos + len > data.length) throw new Error("Compressed data ends unexpectedly");
+      reserve(len);
+      out.set(data.subarray(r.pos, r.pos + len), length);
+      length += len;
+      r.pos += len;
+      continue;
+    }
+
+    if (type === 3) throw new Error("Invalid compressed data");
+    const [literals, distances] =
+      type === 1 ? [FIXED_LITERALS, FIXED_DISTANCES] : readDynamicTables(r);
+
+    for (;;) {
+      const symbol = decodeSymbol(r, literals);
+      if (symbol < 256) {
+        reserve(1);
+        out[length++] = symbol;
+        continue;
+      }
+      if (symbol === 256) break;
+      const li = symbol - 257;
+      if (li >= LENGTH_BASE.length) throw new Error("Invalid compressed data");
+      const len = LENGTH_BASE[li]! + bits(r, LENGTH_EXTRA[li]!);
+      const di = decodeSymbol(r, distances);
+      if (di >= DIST_BASE.length) throw new Error("Invalid compressed data");
+      const dist = DIST_BASE[di]! + bits(r, DIST_EXTRA[di]!);
+      if (dist > length) throw new Error("Invalid compressed data");
+      reserve(len);
+      // Byte by byte: the copy may overlap its own output
+      for (let i = 0; i < len; i++, length++) out[length] = out[length - dist]!;
+    }
+  }
+
+  // Unused buffered bits belong to the last byte read; the checksum follows it
+  return { data: out.subarray(0, length), end: r.pos + 4 };
+}
@@ -0,0 +1,251 @@
+import { inflateZlib } from "./inflate";
+
+export type GitObjectType = "commit" | "tree" | "blob" | "tag";
+
+export type GitObject = { type: GitObjectType; data: Uint8Array };
+
+const TYPES: Record<number, GitObjectType> = { 1: "commit", 2: "tree", 3: "blob", 4: "tag" };
+const OFS_DELTA = 6;
+const REF_DELTA = 7;
+
+// Resolved objects kept around as delta bases, by total size
+const CACHE_BYTES = 32 * 1024 * 1024;
+
+export function toHex(bytes: Uint8Array) {
+  let hex = "";
+  for (const b of bytes) hex += b.toString(16).padStart(2, "0");
+  return hex;
+}
+
+/** Object id: SHA-1 of `<type> <size>\0<data>`. */
+export async function hashObject(object: GitObject): Promise<string> {
+  const header = new TextEncoder().encode(`${object.type} ${object.data.length}\0`);
+  const bytes = new Uint8Array(header.length + object.data.length);
+  bytes.set(header);
+  bytes.set(object.data, header.length);
+  return toHex(new Uint8Array(await crypto.subtle.digest("SHA-1", bytes)));
+}
+
+// Rebuilds an object from its base and a git delta (copy/insert instructions)
+function applyDelta(base: Uint8Array, delta: Uint8Array): Uint8Array {
+  let pos = 0;
+  const varint = () => {
+    let value = 0;
+    let shift = 0;
+    let byte: number;
+    do {
+      byte = delta[pos++]!;
+      value += (byte & 0x7f) * 2 ** shift;
+      shift += 7;
+    } while (byte & 0x80);
+    return value;
+  };
+  if (varint() !== base.length) throw new Error("Corrupt pack: delta base size mismatch");
+  const out = new Uint8Array(varint());
+  let length = 0;
+
+  while (pos < delta.length) {
+    const op = delta[pos++]!;
+    if (op & 0x80) {
+      let offset = 0;
+      let size = 0;
+      for (let i = 0; i < 4; i++) if (op & (1 << i)) offset += delta[pos++]! * 2 ** (8 * i);
+      for (let i = 0; i < 3; i++) if (op & (0x10 << i)) size += delta[pos++]! * 2 ** (8 * i);
+      if (size === 0) size = 0x10000;
+      out.set(base.subarray(offset, offset + size), length);
+      length += size;
+    } else if (op) {
+      out.set(delta.subarray(pos, pos + op), length);
+      length += op;
+      pos += op;
+    } else {
+      throw new Error("Corrupt pack: invalid delta instruction");
+    }
+  }
+  if (length !== out.length) throw new Error("Corrupt pack: delta result size mismatch");
+  return out;
+}
+
+type PackEntry = {
+  type: number;
+  size: number;
+  // Offset of the zlib stream
+  dataStart: number;
+  baseOffset?: number;
+  baseOid?: string;
+};
+
+// `start` is where the entry begins in `bytes`; `offset` is its position in the pack
+function readEntryHeader(bytes: Uint8Array, start: number, offset = start): PackEntry {
+  let pos = start;
+  let byte = bytes[pos++]!;
+  const type = (byte >> 4) & 7;
+  let size = byte & 0x0f;
+  let shift = 4;
+  while (byte & 0x80) {
+    byte = bytes[pos++]!;
+    size += (byte & 0x7f) * 2 ** shift;
+    shift += 7;
+  }
+  if (type === OFS_DELTA) {
+    byte = bytes[pos++]!;
+    let distance = byte & 0x7f;
+    while (byte & 0x80) {
+      byte = bytes[pos++]!;
+      distance = (distance + 1) * 128 + (byte & 0x7f);
+    }
+    return { type, size, dataStart: pos, baseOffset: offset - distance };
+  }
+  if (type === REF_DELTA) {
+    return { type, size, dataStart: pos + 20, baseOid: toHex(bytes.subarray(pos, pos + 20)) };
+  }
+  if (!TYPES[type]) throw new Error(`Corrupt pack: unknown object type ${type} at ${offset}`);
+  return { type, size, dataStart: pos };
+}
+
+export type PackReader = {
+  /** Reads the object at `offset`; `end` is where the next entry starts. */
+  readAt(offset: number): Promise<GitObject & { end: number }>;
+};
+
+/**
+ * Bytes of the pack from `offset` up to at least the end of the entry there,
+ * so large packs can be read an entry at a time.
+ */
+export type PackSource = (offset: number) => Promise<Uint8Array>;
+
+/** Source for a pack that is already in memory. */
+export function bytesPackSource(pack: Uint8Array): PackSource {
+  return async (offset) => pack.subarray(offset);
+}
+
+/**
+ * Random access into a pack. `readBase` finds the base of a REF_DELTA entry,
+ * which may live elsewhere in the repository.
+ */
+export function createPackReader(
+  source: PackSource,
+  readBase: (oid: string) => Promise<GitObject>,
+): PackReader {
+  const cache = new Map<number, GitObject & { end: number }>();
+  let cachedBytes = 0;
+
+  const remember = (offset: number, object: GitObject & { end: number }) => {
+    cache.set(offset, object);
+    cachedBytes += object.data.length;
+    // Evict the least recently used bases
+    for (const [key, old] of cache) {
+      if (cachedBytes <= CACHE_BYTES || key === offset) break;
+      cache.delete(key);
+      cachedBytes -= old.data.length;
+    }
+  };
+
+  const readAt = async (offset: number): Promise<GitObject & { end: number }> => {
+    const cached = cache.get(offset);
+    if (cached) {
+      cache.delete(offset);
+      cache.set(offset, cached);
+      return cached;
+    }
+    const bytes = await source(offset);
+    const entry = readEntryHeader(bytes, 0, offset);
+    const inflated = inflateZlib(bytes, entry.dataStart, entry.size);
+    const { data } = inflated;
+    const end = offset + inflated.end;
+    let object: GitObject;
+    if (entry.baseOffset !== undefined) {
+      const base = await readAt(entry.baseOffset);
+      object = { type: base.type, data: applyDelta(base.data, data) };
+    } else if (entry.baseOid !== undefined) {
+      const base = await readBase(entry.baseOid);
+      object = { type: base.type, data: applyDelta(base.data, data) };
+    } else {
+      object = { type: TYPES[entry.type]!, data };
+    }
+    const result = { ...object, end };
+    remember(offset, result);
+    return result;
+  };
+
+  return { readAt };
+}
+
+function checkPackHeader(pack: Uint8Array): number {
+  const view = new DataView(pack.buffer, pack.byteOffset, pack.byteLength);
+  if (pack.length < 12 || view.getUint32(0) !== 0x5041434b) throw new Error("Not a git pack");
+  const version = view.getUint32(4);
+  if (version !== 2 && version !== 3) throw new Error(`Unsupported pack version ${version}`);
+  return view.getUint32(8);
+}
+
+/**
+ * Version 2 `.idx` file next to a pack: sorted object ids and their offsets.
+ */
+export function parsePackIndex(idx: Uint8Array): Map<string, number> {
+  const view = new DataView(idx.buffer, idx.byteOffset, idx.byteLength);
+  if (view.getUint32(0) !== 0xff744f63 || view.getUint32(4) !== 2) {
+    throw new Error("Unsupported pack index (expected version 2)");
+  }
+  const count = view.getUint32(8 + 255 * 4);
+  const oidsAt = 8 + 256 * 4;
+  const offsetsAt = oidsAt + count * 20 + count * 4;
+  const largeAt = offsetsAt + count * 4;
+  const offsets = new Map<string, number>();
+  for (let i = 0; i < count; i++) {
+    const oid = toHex(idx.subarray(oidsAt + i * 20, oidsAt + i * 20 + 20));
+    let offset = view.getUint32(offsetsAt + i * 4);
+    // MSB set: index into the table of 64-bit offsets for packs over 2 GiB
+    if (offset & 0x80000000) {
+      const at = largeAt + (offset & 0x7fffffff) * 8;
+      offset = view.getUint32(at) * 2 ** 32 + view.getUint32(at + 4);
+    }
+    offsets.set(oid, offset);
+  }
+  return offsets;
+}
+
+/**
+ * Fills `offsets` (id -> offset) for a pack that came without an index, like
+ * the one in a bundle. Every object is inflated and hashed along the way.
+ */
+export async function indexPack(
+  pack: Uint8Array,
+  reader: PackReader,
+  offsets: Map<string, number>,
+): Promise<void> {
+  const count = checkPackHeader(pack);
+  // REF_DELTA entries whose base shows up later in the pack
+  let pending: number[] = [];
+
+  let offset = 12;
+  for (let i = 0; i < count; i++) {
+    const entry = readEntryHeader(pack, offset);
+    if (entry.baseOid !== undefined && !offsets.has(entry.baseOid)) {
+      pending.push(offset);
+      offset = inflateZlib(pack, entry.dataStart, entry.size).end;
+      continue;
+    }
+    const object = await reader.readAt(offset);
+    offsets.set(await hashObject(object), offset);
+    offset = object.end;
+  }
+
+  while (pending.length > 0) {
+    const waiting: number[] = [];
+    for (const at of pending) {
+      if (!offsets.has(readEntryHeader(pack, at).baseOid!)) {
+        waiting.push(at);
+        continue;
+      }
+      offsets.set(await hashObject(await reader.readAt(at)), at);
+    }
+    if (waiting.length === pending.length) {
+      const missing = readEntryHeader(pack, waiting[0]!).baseOid!;
+      throw new Error(
+        `The pack needs object ${missing.slice(0, 7)}, which it does not contain; create the bundle from a full branch (e.g. git bundle create repo.bundle main)`,
+      );
+    }
+    pending = waiting;
+  }
+}
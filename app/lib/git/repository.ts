@@ -0,0 +1,214 @@
+import { inflateZlib } from "./inflate";
+import {
+  bytesPackSource,
+  createPackReader,
+  indexPack,
+  parsePackIndex,
+  type GitObject,
+  type GitObjectType,
+  type PackReader,
+  type PackSource,
+} from "./pack";
+
+/**
+ * Read-only view of a git repository: enough to resolve revisions and read
+ * commits, trees and blobs. Backed by a `.git` directory or a bundle.
+ */
+export type GitRepository = {
+  // Folder or bundle name, for display
+  name: string;
+  readObject(oid: string): Promise<GitObject>;
+  // Full ref name ("HEAD", "refs/heads/main", ...) -> object id, or null
+  resolveRef(ref: string): Promise<string | null>;
+  // Object ids starting with `prefix`, for abbreviated hashes
+  findObjects(prefix: string): Promise<string[]>;
+};
+
+const OID = /^[0-9a-f]{40}$/;
+
+function missingObject(oid: string): never {
+  throw new Error(`Object ${oid.slice(0, 7)} is missing from the repository`);
+}
+
+// Loose object file: zlib of `<type> <size>\0<data>`
+function parseLooseObject(compressed: Uint8Array): GitObject {
+  const raw = inflateZlib(compressed).data;
+  const nul = raw.indexOf(0);
+  const [type] = new TextDecoder().decode(raw.subarray(0, nul)).split(" ");
+  return { type: type as GitObjectType, data: raw.subarray(nul + 1) };
+}
+
+// `packed-refs`: "<oid> <ref>" lines; "^<oid>" lines peel the tag above
+function parsePackedRefs(text: string): Map<string, string> {
+  const refs = new Map<string, string>();
+  for (const line of text.split("\n")) {
+    const m = /^([0-9a-f]{40}) (\S+)$/.exec(line.trim());
+    if (m) refs.set(m[2]!, m[1]!);
+  }
+  return refs;
+}
+
+async function childDirectory(dir: FileSystemDirectoryHandle, path: string[]) {
+  let current = dir;
+  for (const name of path) current = await current.getDirectoryHandle(name);
+  return current;
+}
+
+async function readFile(dir: FileSystemDirectoryHandle, path: string[]): Promise<File | null> {
+  try {
+    const parent = await childDirectory(dir, path.slice(0, -1));
+    return await (await parent.getFileHandle(path[path.length - 1]!)).getFile();
+  } catch {
+    return null;
+  }
+}
+
+async function readBytes(file: Blob) {
+  return new Uint8Array(await file.arrayBuffer());
+}
+
+// Reads one entry at a time from a pack on disk: entries end where the next one
+// (in offset order) starts, the last one before the 20-byte trailer
+function filePackSource(file: File, offsets: Map<string, number>): PackSource {
+  const starts = [...new Set(offsets.values())].sort((a, b) => a - b);
+  const ends = new Map(starts.map((start, i) => [start, starts[i + 1] ?? file.size - 20]));
+  return (offset) => readBytes(file.slice(offset, ends.get(offset) ?? file.size));
+}
+
+/**
+ * Opens a repository from a directory picked with the File System Access API:
+ * either a working tree containing `.git`, or the `.git` directory itself.
+ */
+export async function openDirectoryRepository(
+  root: FileSystemDirectoryHandle,
+): Promise<GitRepository> {
+  let gitDir = root;
+  try {
+    gitDir = await root.getDirectoryHandle(".git");
+  } catch {
+    if (!(await readFile(root, ["HEAD"]))) {
+      const dotGit = await readFile(root, [".git"]);
+      throw new Error(
+        dotGit
+          ? "Worktrees and submodules are not supported; pick the main repository's .git folder"
+          : `${root.name} is not a git repository (no .git folder found)`,
+      );
+    }
+  }
+
+  // Pack entries are read as needed; only the indexes are loaded up front
+  const packs: { offsets: Map<string, number>; file: File; reader?: PackReader }[] = [];
+  const packDir = await childDirectory(gitDir, ["objects", "pack"]).catch(() => null);
+  if (packDir) {
+    for await (const name of packDir.keys()) {
+      if (!name.endsWith(".idx")) continue;
+      const idx = await readFile(packDir, [name]);
+      const packFile = await readFile(packDir, [name.replace(/\.idx$/, ".pack")]);
+      if (!idx || !packFile) continue;
+      packs.push({ offsets: parsePackIndex(await readBytes(idx)), file: packFile });
+    }
+  }
+
+  let packedRefs: Map<string, string> | null = null;
+
+  const repo: GitRepository = {
+    name: root.name,
+    async readObject(oid) {
+      const loose = await readFile(gitDir, ["objects", oid.slice(0, 2), oid.slice(2)]);
+      if (loose) return parseLooseObject(await readBytes(loose));
+      const pack = packs.find((p) => p.offsets.has(oid));
+      if (!pack) missingObject(oid);
+      pack.reader ??= createPackReader(filePackSource(pack.file, pack.offsets), (base) =>
+        repo.readObject(base),
+      );
+      return pack.reader.readAt(pack.offsets.get(oid)!);
+    },
+    async resolveRef(ref) {
+      // Symbolic refs ("ref: refs/heads/main") are followed a few levels deep
+      let name = ref;
+      for (let depth = 0; depth < 5; depth++) {
+        const file = await readFile(gitDir, name.split("/"));
+        const text = file ? (await file.text()).trim() : null;
+        if (text?.startsWith("ref: ")) {
+          name = text.slice(5).trim();
+          continue;
+        }
+        if (text && OID.test(text)) return text;
+        if (!packedRefs) {
+          const packed = await readFile(gitDir, ["packed-refs"]);
+          packedRefs = parsePackedRefs(packed ? await packed.text() : "");
+        }
+        return packedRefs.get(name) ?? null;
+      }
+      return null;
+    },
+    async findObjects(prefix) {
+      const found = new Set<string>();
+      for (const pack of packs) {
+        for (const oid of pack.offsets.keys()) if (oid.startsWith(prefix)) found.add(oid);
+      }
+      const fanout = await childDirectory(gitDir, ["objects", prefix.slice(0, 2)]).catch(
+        () => null,
+      );
+      if (fanout) {
+        for await (const name of fanout.keys()) {
+          const oid = prefix.slice(0, 2) + name;
+          if (oid.startsWith(prefix)) found.add(oid);
+        }
+      }
+      return [...found];
+    },
+  };
+  return repo;
+}
+
+/**
+ * Opens a `git bundle` file (v2 or v3): a list of refs followed by a pack. The
+ * pack has no index, so every object is read once up front.
+ */
+export async function openBundleRepository(file: File): Promise<GitRepository> {
+  const bytes = await readBytes(file);
+  let pos = 0;
+  const readLine = () => {
+    const nl = bytes.indexOf(10, pos);
+    if (nl < 0) throw new Error(`${file.name} is not a git bundle`);
+    const line = new TextDecoder().decode(bytes.subarray(pos, nl));
+    pos = nl + 1;
+    return line;
+  };
+
+  const signature = readLine();
+  if (signature !== "# v2 git bundle" && signature !== "# v3 git bundle") {
+    throw new Error(`${file.name} is not a git bundle (create one with git bundle create)`);
+  }
+  const refs = new Map<string, string>();
+  for (let line = readLine(); line !== ""; line = readLine()) {
+    // "@capability" (v3) and "-<oid>" prerequisite lines are not needed
+    const m = /^([0-9a-f]{40}) (\S+)/.exec(line);
+    if (m) refs.set(m[2]!, m[1]!);
+  }
+  if (refs.size === 0) throw new Error(`${file.name} contains no refs`);
+
+  const packBytes = bytes.subarray(pos);
+  const offsets = new Map<string, number>();
+  const reader = createPackReader(bytesPackSource(packBytes), (oid) => repo.readObject(oid));
+
+  const repo: GitRepository = {
+    name: file.name,
+    async readObject(oid) {
+      const offset = offsets.get(oid);
+      return offset === undefined ? missingObject(oid) : reader.readAt(offset);
+    },
+    async resolveRef(ref) {
+      // Bundles without a HEAD entry default to their first ref
+      if (ref === "HEAD") return refs.get("HEAD") ?? refs.values().next().value ?? null;
+      return refs.get(ref) ?? null;
+    },
+    async findObjects(prefix) {
+      return [...offsets.keys()].filter((oid) => oid.startsWith(prefix));
+    },
+  };
+
+  await indexPack(packBytes, reader, offsets);
+  return repo;
+}
@@ -1,4 +1,7 @@
-import type { LaidToken, LayoutResult } from "./codeLayout";
+import type { LayoutResult } from "./codeLayout";
+import { matchLayoutTokens } from "./tokenDiff";
+import { resolveEasing, type EasingFn } from "./easing";
+import { lineFocusOpacity, type LineFocus } from "./focus";
 
 type AnimatedToken = {
   content: string;
@@ -8,75 +11,179 @@ type AnimatedToken = {
   opacity: number;
 };
 
-function easeInOutCubic(t: number): number {
-  return t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
+/**
+ * Phased transition settings. Shares are relative weights of `transitionMs`
+ * given to each phase (exit → move → enter); they are normalized, so
+ * `{ exit: 1, move: 2, enter: 1 }` spends half of the transition moving.
+ */
+export type TransitionPhases = {
+  enabled: boolean;
+  exit: number;
+  move: number;
+  enter: number;
+  // Delay between consecutive lines within a phase, in ms.
+  lineStaggerMs: number;
+};
+
+export function makeDefaultTransitionPhases(): TransitionPhases {
+  return {
+    enabled: false,
+    exit: 1,
+    move: 2,
+    enter: 1,
+    lineStaggerMs: 0,
+  };
 }
 
+// Stagger never eats more than this fraction of a phase, so every line still animates.
+const MAX_STAGGER_SHARE = 0.5;
+
 function clamp01(x: number): number {
   return Math.max(0, Math.min(1, x));
 }
 
-function buildOccurrenceKey(tokens: LaidToken[]) {
-  const counts = new Map<string, number>();
-  const keyed: { occKey: string; t: LaidToken }[] = [];
-  for (const t of tokens) {
-    const base = t.content;
-    const n = (counts.get(base) ?? 0) + 1;
-    counts.set(base, n);
-    keyed.push({ occKey: `${base}#${n}`, t });
+type PhaseWindow = {
+  start: number;
+  length: number;
+  // Progress offset between consecutive lines.
+  stagger: number;
+  // Line number → rank among the lines animating in this phase.
+  ranks: Map<number, number>;
+};
+
+function makePhaseWindow(
+  start: number,
+  length: number,
+  lines: number[],
+  lineStaggerMs: number,
+  durationMs: number,
+): PhaseWindow {
+  const ranks = new Map<number, number>();
+  [...new Set(lines)].sort((x, y) => x - y).forEach((line, i) => ranks.set(line, i));
+
+  let stagger = 0;
+  if (ranks.size > 1 && lineStaggerMs > 0 && durationMs > 0) {
+    const total = Math.min(
+      ((ranks.size - 1) * lineStaggerMs) / durationMs,
+      length * MAX_STAGGER_SHARE,
+    );
+    stagger = total / (ranks.size - 1);
   }
-  return keyed;
+  return { start, length, stagger, ranks };
+}
+
+function phaseProgress(p: number, win: PhaseWindow, line: number): number {
+  const delay = (win.ranks.get(line) ?? 0) * win.stagger;
+  const span = win.length - win.stagger * Math.max(0, win.ranks.size - 1);
+  if (span <= 0) return p >= win.start + delay ? 1 : 0;
+  return clamp01((p - win.start - delay) / span);
 }
 
 //Animates the layout of the code from the from layout to the to layout.
-//Uses a cubic ease in out curve to interpolate the layout.
+//Tokens are paired with a line-anchored sequence diff, so unchanged code stays put.
+//Without phases every token animates over the whole progress; with phases removed
+//tokens leave first, kept tokens slide, then new tokens appear, each line optionally staggered.
+//Interpolates with the given easing curve (cubic ease in out by default).
+//Line focus dimming cross-fades from the source to the target focus.
 export function animateLayouts(opts: {
   from: LayoutResult;
   to: LayoutResult;
   progress: number; // 0..1
+  phases?: TransitionPhases;
+  durationMs?: number;
+  easing?: EasingFn;
+  fromFocus?: LineFocus;
+  toFocus?: LineFocus;
 }): { content: string; color: string; x: number; y: number; opacity: number }[] {
-  const p = easeInOutCubic(clamp01(opts.progress));
+  const progress = clamp01(opts.progress);
+  const ease = opts.easing ?? resolveEasing(undefined);
+  const { pairs, removed, added } = matchLayoutTokens(opts.from, opts.to);
+  const fromTokens = opts.from.tokens;
+  const toTokens = opts.to.tokens;
+
+  let exitAt = (_line: number) => ease(progress);
+  let moveAt = exitAt;
+  let enterAt = exitAt;
+
+  const phases = opts.phases;
+  const shareTotal = phases ? phases.exit + phases.move + phases.enter : 0;
+  if (phases?.enabled && shareTotal > 0) {
+    const durationMs = opts.durationMs ?? 0;
+    const exitLen = phases.exit / shareTotal;
+    const moveLen = phases.move / shareTotal;
+    const enterLen = phases.enter / shareTotal;
 
-  const fromKeyed = buildOccurrenceKey(opts.from.tokens);
-  const toKeyed = buildOccurrenceKey(opts.to.tokens);
+    const exitWin = makePhaseWindow(
+      0,
+      exitLen,
+      removed.map((i) => fromTokens[i]!.line),
+      phases.lineStaggerMs,
+      durationMs,
+    );
+    const moveWin = makePhaseWindow(
+      exitLen,
+      moveLen,
+      pairs
+        .filter(
+          ([i, j]) => fromTokens[i]!.x !== toTokens[j]!.x || fromTokens[i]!.y !== toTokens[j]!.y,
+        )
+        .map(([, j]) => toTokens[j]!.line),
+      phases.lineStaggerMs,
+      durationMs,
+    );
+    const enterWin = makePhaseWindow(
+      exitLen + moveLen,
+      enterLen,
+      added.map((j) => toTokens[j]!.line),
+      phases.lineStaggerMs,
+      durationMs,
+    );
 
-  const toMap = new Map<string, LaidToken>();
-  for (const { occKey, t } of toKeyed) toMap.set(occKey, t);
+    exitAt = (line) => ease(phaseProgress(progress, exitWin, line));
+    moveAt = (line) => ease(phaseProgress(progress, moveWin, line));
+    enterAt = (line) => ease(phaseProgress(progress, enterWin, line));
+  }
+
+  const focusP = ease(progress);
+  const dimFrom = (line: number) => lineFocusOpacity(opts.fromFocus, line);
+  const dimTo = (line: number) => lineFocusOpacity(opts.toFocus, line);
 
-  const usedTo = new Set<string>();
   const animated: AnimatedToken[] = [];
 
-  for (const { occKey, t: a } of fromKeyed) {
-    const b = toMap.get(occKey);
-    if (b) {
-      usedTo.add(occKey);
-      animated.push({
-        content: b.content,
-        color: b.color,
-        x: a.x + (b.x - a.x) * p,
-        y: a.y + (b.y - a.y) * p,
-        opacity: 1,
-      });
-    } else {
-      animated.push({
-        content: a.content,
-        color: a.color,
-        x: a.x,
-        y: a.y,
-        opacity: 1 - p,
-      });
-    }
+  for (const [i, j] of pairs) {
+    const a = fromTokens[i]!;
+    const b = toTokens[j]!;
+    const p = moveAt(b.line);
+    animated.push({
+      content: b.content,
+      color: b.color,
+      x: a.x + (b.x - a.x) * p,
+      y: a.y + (b.y - a.y) * p,
+      opacity: dimFrom(a.line) + (dimTo(b.line) - dimFrom(a.line)) * focusP,
+    });
+  }
+
+  // Fade out removed tokens
+  for (const i of removed) {
+    const a = fromTokens[i]!;
+    animated.push({
+      content: a.content,
+      color: a.color,
+      x: a.x,
+      y: a.y,
+      opacity: dimFrom(a.line) * (1 - exitAt(a.line)),
+    });
   }
 
   // Fade in new tokens
-  for (const { occKey, t: b } of toKeyed) {
-    if (usedTo.has(occKey)) continue;
+  for (const j of added) {
+    const b = toTokens[j]!;
     animated.push({
       content: b.content,
       color: b.color,
       x: b.x,
       y: b.y,
-      opacity: p,
+      opacity: dimTo(b.line) * enterAt(b.line),
     });
   }
 
@@ -0,0 +1,103 @@
+import type { CanvasLayoutConfig, LayoutResult } from "./codeLayout";
+import { matchLayoutTokens } from "./tokenDiff";
+
+/**
+ * How the canvas is sized:
+ * - "fit": the canvas grows to fit the longest step (no camera).
+ * - "camera": the canvas keeps its configured size and a virtual camera
+ *   pans/zooms to keep the changed or focused region in view.
+ */
+export type FrameMode = "fit" | "camera";
+
+/**
+ * Virtual camera in content space: the content point at (scrollX, scrollY)
+ * is drawn at the top-left of the canvas, scaled by `zoom`.
+ */
+export type Camera = {
+  scrollX: number;
+  scrollY: number;
+  zoom: number;
+};
+
+export const IDENTITY_CAMERA: Camera = { scrollX: 0, scrollY: 0, zoom: 1 };
+
+// Zooming out further than this makes code unreadable; pan instead.
+const MIN_ZOOM = 0.6;
+// Lines of context kept around the region of interest.
+const CONTEXT_LINES = 2;
+
+/**
+ * Lines of `to` that differ from `from`: new tokens, and kept tokens that
+ * changed line. Returned as a sorted list of zero-based line indices.
+ */
+export function changedLines(from: LayoutResult, to: LayoutResult): number[] {
+  const { pairs, added } = matchLayoutTokens(from, to);
+  const lines = new Set<number>();
+  for (const j of added) {
+    if (to.tokens[j]!.content.trim() !== "") lines.add(to.tokens[j]!.line);
+  }
+  for (const [i, j] of pairs) {
+    if (from.tokens[i]!.line !== to.tokens[j]!.line) lines.add(to.tokens[j]!.line);
+  }
+  return [...lines].sort((a, b) => a - b);
+}
+
+/**
+ * Camera for a resting frame. The region of interest is the focused lines,
+ * else the lines that changed on the way into this step, else the top of
+ * the file. Zoom fits the content width (never above 1) and, within
+ * `MIN_ZOOM`, the region height; the view is centered on the region.
+ */
+export function computeRestingCamera(opts: {
+  layout: LayoutResult;
+  lineCount: number;
+  config: CanvasLayoutConfig;
+  focusLines?: number[] | null;
+  changed?: number[];
+}): Camera {
+  const { layout, lineCount, config } = opts;
+  const viewW = config.canvasWidth;
+  const viewH = config.canvasHeight;
+
+  let contentRight = 0;
+  for (const t of layout.tokens) contentRight = Math.max(contentRight, t.x + t.w);
+  const contentW = contentRight + config.paddingX;
+  // Same extra bottom line as calculateCanvasHeight
+  const contentH = lineCount * config.lineHeight + config.paddingY * 2 + config.lineHeight;
+
+  const zoomW = Math.min(1, viewW / Math.max(1, contentW));
+  if (contentH * zoomW <= viewH) return { scrollX: 0, scrollY: 0, zoom: zoomW };
+
+  const region =
+    opts.focusLines && opts.focusLines.length > 0
+      ? opts.focusLines
+      : opts.changed && opts.changed.length > 0
+        ? opts.changed
+        : [0];
+  const first = Math.max(0, region[0]! - CONTEXT_LINES);
+  const last = Math.min(lineCount - 1, region[region.length - 1]! + CONTEXT_LINES);
+  const regionTop = config.paddingY + first * config.lineHeight;
+  const regionBottom = config.paddingY + (last + 1) * config.lineHeight;
+  const regionH = regionBottom - regionTop;
+
+  const zoom = Math.min(zoomW, Math.max(MIN_ZOOM, viewH / regionH));
+  const visibleH = viewH / zoom;
+  const maxScroll = Math.max(0, contentH - visibleH);
+
+  // Center the region; if it is taller than the view, show its top instead.
+  const scrollY =
+    regionH + config.paddingY * 2 > visibleH
+      ? regionTop - config.paddingY
+      : (regionTop + regionBottom) / 2 - visibleH / 2;
+
+  return { scrollX: 0, scrollY: Math.max(0, Math.min(maxScroll, scrollY)), zoom };
+}
+
+export function interpolateCamera(a: Camera, b: Camera, t: number): Camera {
+  return {
+    scrollX: a.scrollX + (b.scrollX - a.scrollX) * t,
+    scrollY: a.scrollY + (b.scrollY - a.scrollY) * t,
+    // Interpolate zoom geometrically so zooming in and out feel symmetric
+    zoom: a.zoom * Math.pow(b.zoom / a.zoom, t),
+  };
+}
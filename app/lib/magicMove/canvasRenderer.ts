@@ -1,4 +1,7 @@
 import type { CanvasLayoutConfig, LayoutResult, RenderTheme } from "./codeLayout";
+import type { EasingFn } from "./easing";
+import type { Camera } from "./camera";
+import { interpolateFocusBars, lineFocusOpacity, type FocusBar, type LineFocus } from "./focus";
 
 function roundedRectPath(
   ctx: CanvasRenderingContext2D,
@@ -31,6 +34,51 @@ function clearAndPaintBackground(opts: {
   ctx.fillRect(0, 0, w, h);
 }
 
+// Single-line caption in a pill along the bottom of the card, cut to fit
+function drawCaption(opts: {
+  ctx: CanvasRenderingContext2D;
+  config: CanvasLayoutConfig;
+  theme: RenderTheme;
+  text: string;
+  opacity: number;
+  cardX: number;
+  cardY: number;
+  cardW: number;
+  cardH: number;
+}) {
+  const { ctx, config, cardX, cardY, cardW, cardH } = opts;
+  if (opts.opacity < 0.01) return;
+  const k = config.scale;
+  const fontSize = Math.round(config.fontSize * 0.95);
+  const padX = 14 * k;
+  const padY = 8 * k;
+  const maxTextW = cardW - 96 * k - padX * 2;
+
+  ctx.font = `500 ${fontSize}px ui-sans-serif, system-ui, sans-serif`;
+  let text = opts.text.split("\n")[0]!.trim();
+  if (ctx.measureText(text).width > maxTextW) {
+    while (text.length > 1 && ctx.measureText(`${text}…`).width > maxTextW)
+      text = text.slice(0, -1);
+    text = `${text.trimEnd()}…`;
+  }
+  const w = ctx.measureText(text).width + padX * 2;
+  const h = fontSize + padY * 2;
+  const x = cardX + (cardW - w) / 2;
+  const y = cardY + cardH - 24 * k - h;
+
+  ctx.globalAlpha = Math.min(1, opts.opacity);
+  roundedRectPath(ctx, x, y, w, h, h / 2);
+  ctx.fillStyle = opts.theme === "dark" ? "rgba(0,0,0,0.65)" : "rgba(255,255,255,0.90)";
+  ctx.fill();
+  ctx.strokeStyle = opts.theme === "dark" ? "rgba(255,255,255,0.12)" : "rgba(17,24,39,0.12)";
+  ctx.lineWidth = k;
+  ctx.stroke();
+  ctx.fillStyle = opts.theme === "dark" ? "rgba(255,255,255,0.92)" : "rgba(17,24,39,0.88)";
+  ctx.textBaseline = "top";
+  ctx.fillText(text, x + padX, y + padY);
+  ctx.globalAlpha = 1;
+}
+
 //Draws a code frame to the canvas.
 //Paints the background, card background, gutter, and tokens.
 export function drawCodeFrame(opts: {
@@ -43,35 +91,59 @@ export function drawCodeFrame(opts: {
   // Optional gutter override (for animation)
   showLineNumbers?: boolean;
   startLine?: number;
+  // Start line of the previous step; labels cross-fade when it differs from startLine
+  prevStartLine?: number;
   lineCount?: number;
   prevLineCount?: number;
   targetLineCount?: number;
   transitionProgress?: number;
+  // Easing for gutter fades; pass the token easing to keep both in sync.
+  easing?: EasingFn;
+  // Line focus of the resting layout (dims default tokens, draws its highlight bar)
+  focus?: LineFocus;
+  // Highlight bars override (for animation)
+  focusBars?: FocusBar[];
+  // Virtual camera (fixed-frame mode); content inside the card is panned and zoomed
+  camera?: Camera;
+  // Step captions over the bottom of the card; two cross-fade during a transition
+  captions?: { text: string; opacity: number }[];
 }) {
   const { ctx, config, layout } = opts;
 
   clearAndPaintBackground({ ctx, config, bg: layout.bg });
 
-  // Card background
-  const cardX = 32;
-  const cardY = 32;
-  const cardW = ctx.canvas.width - 64;
-  const cardH = ctx.canvas.height - 64;
+  // Card background (chrome sizes scale with the frame)
+  const k = config.scale;
+  const cardX = 32 * k;
+  const cardY = 32 * k;
+  const cardW = ctx.canvas.width - 64 * k;
+  const cardH = ctx.canvas.height - 64 * k;
   const cardBg = opts.theme === "dark" ? "rgba(255,255,255,0.04)" : "rgba(17,24,39,0.03)";
   const cardBorder = opts.theme === "dark" ? "rgba(255,255,255,0.08)" : "rgba(17,24,39,0.10)";
 
-  roundedRectPath(ctx, cardX, cardY, cardW, cardH, 18);
+  roundedRectPath(ctx, cardX, cardY, cardW, cardH, 18 * k);
   ctx.fillStyle = cardBg;
   ctx.fill();
   ctx.strokeStyle = cardBorder;
-  ctx.lineWidth = 1;
+  ctx.lineWidth = k;
   ctx.stroke();
 
   ctx.save();
   ctx.beginPath();
-  roundedRectPath(ctx, cardX, cardY, cardW, cardH, 18);
+  roundedRectPath(ctx, cardX, cardY, cardW, cardH, 18 * k);
   ctx.clip();
 
+  // Visible content area in content space (equals the card when there is no camera)
+  const camera = opts.camera;
+  let viewRight = cardX + cardW;
+  let viewBottom = cardY + cardH;
+  if (camera) {
+    ctx.scale(camera.zoom, camera.zoom);
+    ctx.translate(-camera.scrollX, -camera.scrollY);
+    viewRight = camera.scrollX + ctx.canvas.width / camera.zoom;
+    viewBottom = camera.scrollY + ctx.canvas.height / camera.zoom;
+  }
+
   // Gutter (line numbers)
   const gutterEnabled = opts.showLineNumbers ?? layout.gutter.enabled;
   const gutterWidth = gutterEnabled ? layout.gutter.width : 0;
@@ -79,15 +151,15 @@ export function drawCodeFrame(opts: {
   if (gutterEnabled && gutterWidth > 0) {
     const x0 = config.paddingX;
     const y0 = config.paddingY;
-    const h = cardH - (config.paddingY - (cardY + 0));
+    const h = Math.max(cardH - (config.paddingY - (cardY + 0)), viewBottom - (y0 - 8 * k));
 
     ctx.fillStyle = opts.theme === "dark" ? "rgba(0,0,0,0.16)" : "rgba(255,255,255,0.40)";
-    ctx.fillRect(x0, y0 - 8, gutterWidth + 12, h);
+    ctx.fillRect(x0, y0 - 8 * k, gutterWidth + 12 * k, h);
 
     ctx.strokeStyle = layout.gutter.dividerColor;
     ctx.beginPath();
-    ctx.moveTo(x0 + gutterWidth + 8, y0 - 8);
-    ctx.lineTo(x0 + gutterWidth + 8, y0 - 8 + h);
+    ctx.moveTo(x0 + gutterWidth + 8 * k, y0 - 8 * k);
+    ctx.lineTo(x0 + gutterWidth + 8 * k, y0 - 8 * k + h);
     ctx.stroke();
 
     const startLine = opts.startLine ?? config.startLine;
@@ -101,12 +173,37 @@ export function drawCodeFrame(opts: {
     const prevCount = opts.prevLineCount ?? lineCount;
     const targetCount = opts.targetLineCount ?? lineCount;
     const progress = opts.transitionProgress ?? 1;
+    // Defaults to a cubic ease-in (t^3) for a smoother appearance
+    const ease = opts.easing ?? ((t: number) => t * t * t);
+
+    const prevStartLine = opts.prevStartLine ?? startLine;
+    const inTransition = opts.transitionProgress !== undefined;
+    const e = Math.max(0, Math.min(1, ease(Math.max(0, Math.min(1, progress)))));
+
+    const drawLabel = (n: number, y: number, alpha: number) => {
+      if (alpha < 0.01) return;
+      const label = String(n);
+      const w = ctx.measureText(label).width;
+      ctx.globalAlpha = alpha;
+      ctx.fillText(label, config.paddingX + gutterWidth - 16 * k - w, y);
+    };
 
     for (let i = 0; i < lineCount; i++) {
+      const y = config.paddingY + i * config.lineHeight;
+
+      if (inTransition && prevStartLine !== startLine) {
+        // Start line changed: old labels slide out while new ones slide in, in the
+        // direction the numbering moved
+        const shift = Math.sign(startLine - prevStartLine) * config.lineHeight * 0.5;
+        if (i < prevCount) drawLabel(prevStartLine + i, y - shift * e, 0.9 * (1 - e));
+        if (i < targetCount) drawLabel(startLine + i, y + shift * (1 - e), 0.9 * e);
+        continue;
+      }
+
       let alpha = 0.9;
 
       // If we are in a transition
-      if (opts.transitionProgress !== undefined) {
+      if (inTransition) {
         const inPrev = i < prevCount;
         const inTarget = i < targetCount;
 
@@ -115,28 +212,40 @@ export function drawCodeFrame(opts: {
           alpha = 0.9;
         } else if (!inPrev && inTarget) {
           // Line is appearing (fade in)
-          // Use cubic easing for smoother appearance: t^3
-          const t = Math.max(0, Math.min(1, progress));
-          alpha = 0.9 * (t * t * t);
+          alpha = 0.9 * e;
         } else if (inPrev && !inTarget) {
           // Line is disappearing (fade out)
-          const t = Math.max(0, Math.min(1, 1 - progress));
-          alpha = 0.9 * (t * t * t);
+          alpha = 0.9 * (1 - e);
         } else {
           // Should not happen if loop bound is correct, but safe fallback
           alpha = 0;
         }
       }
 
-      if (alpha < 0.01) continue;
+      drawLabel(startLine + i, y, alpha);
+    }
+  }
 
-      const n = startLine + i;
-      const label = String(n);
-      const y = config.paddingY + i * config.lineHeight;
-      const w = ctx.measureText(label).width;
-      ctx.globalAlpha = alpha;
-      ctx.fillText(label, config.paddingX + gutterWidth - 16 - w, y);
+  // Highlight bars behind focused lines
+  const bars = opts.focusBars ?? interpolateFocusBars(opts.focus, opts.focus, 1);
+  if (bars.length > 0) {
+    const barX = gutterEnabled && gutterWidth > 0 ? config.paddingX + gutterWidth + 8 * k : cardX;
+    const barW = viewRight - barX;
+    // Center the bar on the glyphs, which are drawn from the top of each line
+    const offsetY = (config.fontSize - config.lineHeight) / 2;
+    const fill = opts.theme === "dark" ? "rgba(255,255,255,0.07)" : "rgba(17,24,39,0.06)";
+    const accent = opts.theme === "dark" ? "rgba(255,255,255,0.35)" : "rgba(17,24,39,0.30)";
+    for (const bar of bars) {
+      if (bar.opacity < 0.01) continue;
+      const y = config.paddingY + bar.fromLine * config.lineHeight + offsetY;
+      const h = (bar.toLine - bar.fromLine + 1) * config.lineHeight;
+      ctx.globalAlpha = Math.max(0, Math.min(1, bar.opacity));
+      ctx.fillStyle = fill;
+      ctx.fillRect(barX, y, barW, h);
+      ctx.fillStyle = accent;
+      ctx.fillRect(barX, y, 3 * k, h);
     }
+    ctx.globalAlpha = 1;
   }
 
   ctx.font = `${config.fontSize}px ${config.fontFamily}`;
@@ -149,7 +258,7 @@ export function drawCodeFrame(opts: {
       color: t.color,
       x: t.x,
       y: t.y,
-      opacity: 1,
+      opacity: lineFocusOpacity(opts.focus, t.line),
     }));
 
   for (const t of tokensToDraw) {
@@ -161,4 +270,8 @@ export function drawCodeFrame(opts: {
 
   ctx.restore();
   ctx.globalAlpha = 1;
+
+  for (const caption of opts.captions ?? []) {
+    drawCaption({ ctx, config, theme: opts.theme, ...caption, cardX, cardY, cardW, cardH });
+  }
 }
@@ -5,6 +5,8 @@ export type RenderTheme = "light" | "dark";
 export type CanvasLayoutConfig = {
   canvasWidth: number;
   canvasHeight: number;
+  // Size factor relative to the 1920×1080 reference frame; scales chrome like the card inset.
+  scale: number;
   paddingX: number;
   paddingY: number;
   lineHeight: number;
@@ -16,6 +18,8 @@ export type CanvasLayoutConfig = {
 
 export type LaidToken = {
   key: string;
+  // Zero-based source line the token was laid out on.
+  line: number;
   content: string;
   color: string;
   x: number;
@@ -37,14 +41,38 @@ export type LayoutResult = {
   };
 };
 
-export function makeDefaultLayoutConfig(): CanvasLayoutConfig {
+export type FrameSize = {
+  width: number;
+  height: number;
+};
+
+export const REFERENCE_FRAME: FrameSize = { width: 1920, height: 1080 };
+
+export const RESOLUTION_PRESETS: readonly { id: string; label: string; size: FrameSize }[] = [
+  { id: "1080p", label: "16:9 · 1080p", size: { width: 1920, height: 1080 } },
+  { id: "720p", label: "16:9 · 720p", size: { width: 1280, height: 720 } },
+  { id: "4k", label: "16:9 · 4K", size: { width: 3840, height: 2160 } },
+  { id: "vertical", label: "9:16 · Shorts/Reels", size: { width: 1080, height: 1920 } },
+  { id: "square", label: "1:1 · Square", size: { width: 1080, height: 1080 } },
+  { id: "portrait", label: "4:5 · Portrait", size: { width: 1080, height: 1350 } },
+] as const;
+
+/**
+ * Layout config for a frame size. Font size, line height and padding scale
+ * with the shorter side of the frame, so a 4K or vertical video looks like
+ * the 1920×1080 reference.
+ */
+export function makeDefaultLayoutConfig(frame: FrameSize = REFERENCE_FRAME): CanvasLayoutConfig {
+  const scale =
+    Math.min(frame.width, frame.height) / Math.min(REFERENCE_FRAME.width, REFERENCE_FRAME.height);
   return {
-    canvasWidth: 1920,
-    canvasHeight: 1080, // Will be overridden by calculateCanvasHeight when needed
-    paddingX: 64,
-    paddingY: 64,
-    lineHeight: 40,
-    fontSize: 26,
+    canvasWidth: frame.width,
+    canvasHeight: frame.height, // Will be overridden by calculateCanvasHeight when needed
+    scale,
+    paddingX: Math.round(64 * scale),
+    paddingY: Math.round(64 * scale),
+    lineHeight: Math.round(40 * scale),
+    fontSize: Math.round(26 * scale),
     fontFamily:
       'ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, "Liberation Mono", "Courier New", monospace',
     showLineNumbers: false,
@@ -96,7 +124,7 @@ export function layoutTokenLinesToCanvas(opts: {
   const digits = String(lastLineNumber).length;
 
   const gutterEnabled = config.showLineNumbers;
-  const gutterPadding = gutterEnabled ? 16 : 0;
+  const gutterPadding = gutterEnabled ? 16 * config.scale : 0;
   const gutterWidth = gutterEnabled ? Math.ceil(digits * charW + gutterPadding * 2) : 0;
 
   const fg = theme === "dark" ? "#e5e7eb" : "#111827";
@@ -111,13 +139,14 @@ export function layoutTokenLinesToCanvas(opts: {
     let col = 0;
 
     const y = config.paddingY + i * config.lineHeight;
-    const x0 = config.paddingX + gutterWidth + (gutterEnabled ? 12 : 0);
+    const x0 = config.paddingX + gutterWidth + (gutterEnabled ? 12 * config.scale : 0);
 
     for (const t of line.tokens) {
       const content = t.content.replace(/\t/g, "  ");
       const w = content.length * charW;
       tokens.push({
         key: `${content}#${globalIndex++}`,
+        line: i,
         content,
         color: t.color,
         x: x0 + col * charW,
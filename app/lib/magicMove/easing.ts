@@ -0,0 +1,167 @@
+export type EasingFn = (t: number) => number;
+
+/**
+ * Serializable easing choice. Presets are looked up in the registry;
+ * cubic-bezier and spring carry their own parameters.
+ */
+export type EasingSpec =
+  | { type: "preset"; name: string }
+  | { type: "cubic-bezier"; x1: number; y1: number; x2: number; y2: number }
+  | { type: "spring"; stiffness: number; damping: number; mass: number };
+
+export const DEFAULT_EASING: EasingSpec = { type: "preset", name: "easeInOutCubic" };
+
+const BACK_C1 = 1.70158;
+const BACK_C2 = BACK_C1 * 1.525;
+const BACK_C3 = BACK_C1 + 1;
+
+const registry = new Map<string, EasingFn>([
+  ["linear", (t) => t],
+  ["easeInQuad", (t) => t * t],
+  ["easeOutQuad", (t) => 1 - (1 - t) * (1 - t)],
+  ["easeInOutQuad", (t) => (t < 0.5 ? 2 * t * t : 1 - Math.pow(-2 * t + 2, 2) / 2)],
+  ["easeInCubic", (t) => t * t * t],
+  ["easeOutCubic", (t) => 1 - Math.pow(1 - t, 3)],
+  ["easeInOutCubic", (t) => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2)],
+  ["easeInQuart", (t) => t * t * t * t],
+  ["easeOutQuart", (t) => 1 - Math.pow(1 - t, 4)],
+  ["easeInOutQuart", (t) => (t < 0.5 ? 8 * t * t * t * t : 1 - Math.pow(-2 * t + 2, 4) / 2)],
+  ["easeInExpo", (t) => (t <= 0 ? 0 : Math.pow(2, 10 * t - 10))],
+  ["easeOutExpo", (t) => (t >= 1 ? 1 : 1 - Math.pow(2, -10 * t))],
+  [
+    "easeInOutExpo",
+    (t) =>
+      t <= 0
+        ? 0
+        : t >= 1
+          ? 1
+          : t < 0.5
+            ? Math.pow(2, 20 * t - 10) / 2
+            : (2 - Math.pow(2, -20 * t + 10)) / 2,
+  ],
+  ["easeInBack", (t) => BACK_C3 * t * t * t - BACK_C1 * t * t],
+  ["easeOutBack", (t) => 1 + BACK_C3 * Math.pow(t - 1, 3) + BACK_C1 * Math.pow(t - 1, 2)],
+  [
+    "easeInOutBack",
+    (t) =>
+      t < 0.5
+        ? (Math.pow(2 * t, 2) * ((BACK_C2 + 1) * 2 * t - BACK_C2)) / 2
+        : (Math.pow(2 * t - 2, 2) * ((BACK_C2 + 1) * (t * 2 - 2) + BACK_C2) + 2) / 2,
+  ],
+]);
+
+/**
+ * Adds (or replaces) a named preset. Presets must map 0 → 0 and 1 → 1;
+ * values in between may overshoot.
+ */
+export function registerEasing(name: string, fn: EasingFn) {
+  registry.set(name, fn);
+}
+
+export function listEasingPresets(): string[] {
+  return [...registry.keys()];
+}
+
+function cubicBezier(x1: number, y1: number, x2: number, y2: number): EasingFn {
+  // Polynomial coefficients for x(s) and y(s), s in [0, 1].
+  const cx = 3 * x1;
+  const bx = 3 * (x2 - x1) - cx;
+  const ax = 1 - cx - bx;
+  const cy = 3 * y1;
+  const by = 3 * (y2 - y1) - cy;
+  const ay = 1 - cy - by;
+
+  const sampleX = (s: number) => ((ax * s + bx) * s + cx) * s;
+  const sampleY = (s: number) => ((ay * s + by) * s + cy) * s;
+  const sampleDX = (s: number) => (3 * ax * s + 2 * bx) * s + cx;
+
+  const solveS = (x: number) => {
+    // Newton's method first, bisection if it fails to converge.
+    let s = x;
+    for (let i = 0; i < 8; i++) {
+      const err = sampleX(s) - x;
+      if (Math.abs(err) < 1e-6) return s;
+      const d = sampleDX(s);
+      if (Math.abs(d) < 1e-6) break;
+      s -= err / d;
+    }
+    let lo = 0;
+    let hi = 1;
+    s = x;
+    for (let i = 0; i < 30; i++) {
+      const v = sampleX(s);
+      if (Math.abs(v - x) < 1e-6) break;
+      if (v < x) lo = s;
+      else hi = s;
+      s = (lo + hi) / 2;
+    }
+    return s;
+  };
+
+  return (t) => (t <= 0 ? 0 : t >= 1 ? 1 : sampleY(solveS(t)));
+}
+
+// Residual displacement at which a spring counts as settled.
+const SPRING_SETTLE_EPSILON = 0.001;
+
+/**
+ * Damped harmonic oscillator released from 0 toward 1. Normalized time is
+ * stretched over the spring's settling time, so the whole motion (including
+ * overshoot for under-damped springs) fits into the transition.
+ */
+function spring(stiffness: number, damping: number, mass: number): EasingFn {
+  const k = Math.max(1e-3, stiffness);
+  const m = Math.max(1e-3, mass);
+  const c = Math.max(0, damping);
+  const w0 = Math.sqrt(k / m);
+  const zeta = c / (2 * Math.sqrt(k * m));
+
+  let position: (time: number) => number;
+  let decayRate: number;
+  if (zeta < 1) {
+    const wd = w0 * Math.sqrt(1 - zeta * zeta);
+    position = (time) =>
+      1 -
+      Math.exp(-zeta * w0 * time) *
+        (Math.cos(wd * time) + ((zeta * w0) / wd) * Math.sin(wd * time));
+    decayRate = zeta * w0;
+  } else if (zeta === 1) {
+    position = (time) => 1 - Math.exp(-w0 * time) * (1 + w0 * time);
+    decayRate = w0;
+  } else {
+    const root = Math.sqrt(zeta * zeta - 1);
+    const r1 = -w0 * (zeta - root);
+    const r2 = -w0 * (zeta + root);
+    position = (time) => 1 - (r2 * Math.exp(r1 * time) - r1 * Math.exp(r2 * time)) / (r2 - r1);
+    decayRate = -r1;
+  }
+
+  // Undamped springs never settle; cap the window at a few periods.
+  const settleTime =
+    decayRate > 0 ? -Math.log(SPRING_SETTLE_EPSILON) / decayRate : (6 * Math.PI) / w0;
+
+  return (t) => (t <= 0 ? 0 : t >= 1 ? 1 : position(t * settleTime));
+}
+
+const resolved = new Map<string, EasingFn>();
+
+/**
+ * Turns an easing spec into a function. Unknown presets fall back to the
+ * default curve so older projects keep rendering.
+ */
+export function resolveEasing(spec: EasingSpec | undefined): EasingFn {
+  const s = spec ?? DEFAULT_EASING;
+  if (s.type === "preset") {
+    return registry.get(s.name) ?? registry.get("easeInOutCubic")!;
+  }
+  const key = JSON.stringify(s);
+  let fn = resolved.get(key);
+  if (!fn) {
+    fn =
+      s.type === "cubic-bezier"
+        ? cubicBezier(s.x1, s.y1, s.x2, s.y2)
+        : spring(s.stiffness, s.damping, s.mass);
+    resolved.set(key, fn);
+  }
+  return fn;
+}
@@ -0,0 +1,124 @@
+/**
+ * Line focus: a set of highlighted lines with everything else dimmed.
+ * Lines are zero-based indices into the step's code.
+ */
+export type LineFocus = {
+  // null means no focus: every line is drawn at full opacity.
+  lines: number[] | null;
+  dimOpacity: number;
+  highlightBar: boolean;
+};
+
+export const DEFAULT_DIM_OPACITY = 0.35;
+
+// Guards against runaway ranges like "1-999999999".
+const MAX_RANGE_LINE = 9999;
+
+/**
+ * Parses a Slidev-style range list such as `2-4,7` (1-based, inclusive).
+ * Braces are accepted and ignored, so `{2-4,7}` works too. `*` or an empty
+ * string mean "no focus". Returns zero-based line indices.
+ */
+export function parseLineRanges(spec: string): { lines: number[] | null; error?: string } {
+  const body = spec.trim().replace(/^\{/, "").replace(/\}$/, "").trim();
+  if (body === "" || body === "*" || body === "all") return { lines: null };
+
+  const lines = new Set<number>();
+  for (const part of body.split(",")) {
+    const p = part.trim();
+    if (p === "") continue;
+    const m = /^(\d+)(?:\s*-\s*(\d+))?$/.exec(p);
+    if (!m) return { lines: null, error: `Invalid range "${p}"` };
+    const from = Number(m[1]);
+    const to = m[2] === undefined ? from : Number(m[2]);
+    if (from < 1 || to < from || to > MAX_RANGE_LINE)
+      return { lines: null, error: `Invalid range "${p}"` };
+    for (let n = from; n <= to; n++) lines.add(n - 1);
+  }
+  return { lines: [...lines].sort((a, b) => a - b) };
+}
+
+/**
+ * Parses a list of focus states separated by `|`, e.g. `{1-3|5-8|10}`.
+ * Each state is a range list as accepted by `parseLineRanges`; the result
+ * always holds at least one state.
+ */
+export function parseFocusSteps(spec: string): { states: (number[] | null)[]; error?: string } {
+  const body = spec.trim().replace(/^\{/, "").replace(/\}$/, "");
+  const states: (number[] | null)[] = [];
+  for (const part of body.split("|")) {
+    const { lines, error } = parseLineRanges(part);
+    if (error) return { states: [null], error };
+    states.push(lines);
+  }
+  return { states };
+}
+
+/**
+ * Inverse of `parseLineRanges`: formats zero-based indices as `2-4,7`.
+ */
+export function formatLineRanges(lines: number[] | null): string {
+  if (!lines || lines.length === 0) return "";
+  return lineRuns(lines)
+    .map(([from, to]) => (from === to ? `${from + 1}` : `${from + 1}-${to + 1}`))
+    .join(",");
+}
+
+// Contiguous runs of a sorted line list, as inclusive [from, to] pairs.
+function lineRuns(lines: number[]): [number, number][] {
+  const runs: [number, number][] = [];
+  for (const line of lines) {
+    const last = runs[runs.length - 1];
+    if (last && line === last[1] + 1) last[1] = line;
+    else runs.push([line, line]);
+  }
+  return runs;
+}
+
+export function lineFocusOpacity(focus: LineFocus | undefined, line: number): number {
+  if (!focus || !focus.lines) return 1;
+  return focus.lines.includes(line) ? 1 : focus.dimOpacity;
+}
+
+export type FocusBar = {
+  // Line-space position; fractional while sliding between focus states.
+  fromLine: number;
+  toLine: number;
+  opacity: number;
+};
+
+function focusBarRuns(focus: LineFocus | undefined): [number, number][] {
+  if (!focus || !focus.highlightBar || !focus.lines) return [];
+  return lineRuns(focus.lines);
+}
+
+/**
+ * Highlight bars between two focus states. Runs are paired in order and
+ * slide from their old to their new lines; unpaired runs fade in or out.
+ */
+export function interpolateFocusBars(
+  from: LineFocus | undefined,
+  to: LineFocus | undefined,
+  progress: number,
+): FocusBar[] {
+  const a = focusBarRuns(from);
+  const b = focusBarRuns(to);
+  const bars: FocusBar[] = [];
+  const n = Math.max(a.length, b.length);
+  for (let i = 0; i < n; i++) {
+    const ra = a[i];
+    const rb = b[i];
+    if (ra && rb) {
+      bars.push({
+        fromLine: ra[0] + (rb[0] - ra[0]) * progress,
+        toLine: ra[1] + (rb[1] - ra[1]) * progress,
+        opacity: 1,
+      });
+    } else if (ra) {
+      bars.push({ fromLine: ra[0], toLine: ra[1], opacity: 1 - progress });
+    } else if (rb) {
+      bars.push({ fromLine: rb[0], toLine: rb[1], opacity: progress });
+    }
+  }
+  return bars;
+}
@@ -82,7 +82,9 @@ async function getHighlighterOnce() {
   return await highlighterPromise;
 }
 
-function normalizeLang(lang: string): string {
+// Shiki language id for a fence or file language: short aliases are expanded,
+// an empty language is plain text.
+export function normalizeLang(lang: string): string {
   const l = (lang || "").toLowerCase();
   if (l === "js") return "javascript";
   if (l === "ts") return "typescript";
@@ -0,0 +1,179 @@
+import type { EasingSpec } from "./easing";
+import type { Narration } from "./types";
+
+// A resting state in play order: one per focus state of each step.
+export type TimelineStop = {
+  stepIndex: number;
+  focusIndex: number;
+};
+
+export type TimelineSegment =
+  | { kind: "hold"; startMs: number; durationMs: number; stop: number }
+  // Morph from stop `from` to stop `from + 1`
+  | { kind: "transition"; startMs: number; durationMs: number; from: number; easing: EasingSpec };
+
+export type TimelineNarration = { stepIndex: number; startMs: number; audio: Blob };
+
+export type Timeline = {
+  totalMs: number;
+  stops: TimelineStop[];
+  // Back to back from 0 to `totalMs`: hold, transition, hold, ..., hold
+  segments: TimelineSegment[];
+  narrations: TimelineNarration[];
+};
+
+// Upper bound for hold and transition durations, everywhere they are edited or imported
+export const MAX_DURATION_MS = 60000;
+
+// Timing overrides of a step; see `SimpleStep`
+export type TimelineStepInput = {
+  holdMs?: number;
+  transitionMs?: number;
+  easing?: EasingSpec;
+  narration?: Narration;
+};
+
+// One stop per focus state of each step. Kept apart from the timing so duration
+// edits leave the stops (and everything drawn from them) untouched.
+export function buildStops(focusCounts: number[]): TimelineStop[] {
+  return focusCounts.flatMap((focusCount, stepIndex) =>
+    Array.from({ length: focusCount }, (_, focusIndex) => ({ stepIndex, focusIndex })),
+  );
+}
+
+/**
+ * Lays out holds and transitions between `stops`. A stop holds for
+ * `startHoldMs` (first), `betweenHoldMs + endHoldMs` (last) or `betweenHoldMs`,
+ * unless its step overrides the hold; the transition into a stop uses its
+ * step's duration and easing overrides.
+ * A narrated step rests until its clip ends: the hold of its last stop absorbs
+ * whatever the clip needs beyond the step's focus stops and transitions.
+ */
+export function buildTimeline(opts: {
+  stops: TimelineStop[];
+  // Indexed like the steps the stops refer to
+  steps: TimelineStepInput[];
+  startHoldMs: number;
+  betweenHoldMs: number;
+  endHoldMs: number;
+  transitionMs: number;
+  easing: EasingSpec;
+}): Timeline {
+  const { stops, steps } = opts;
+  if (stops.length === 0) {
+    return { totalMs: opts.startHoldMs + opts.endHoldMs, stops, segments: [], narrations: [] };
+  }
+
+  const defaultHold = (k: number) => {
+    if (stops.length === 1) return opts.startHoldMs + opts.endHoldMs;
+    if (k === 0) return opts.startHoldMs;
+    // A between hold after the last transition, then the end hold
+    if (k === stops.length - 1) return opts.betweenHoldMs + opts.endHoldMs;
+    return opts.betweenHoldMs;
+  };
+
+  const segments: TimelineSegment[] = [];
+  const narrations: TimelineNarration[] = [];
+  let t = 0;
+  for (let k = 0; k < stops.length; k++) {
+    const stop = stops[k]!;
+    const step = steps[stop.stepIndex]!;
+    let holdMs = Math.max(0, step.holdMs ?? defaultHold(k));
+
+    const isFirst = stops[k - 1]?.stepIndex !== stop.stepIndex;
+    const isLast = stops[k + 1]?.stepIndex !== stop.stepIndex;
+    if (step.narration && isFirst) {
+      narrations.push({ stepIndex: stop.stepIndex, startMs: t, audio: step.narration.audio });
+    }
+    if (step.narration && isLast) {
+      const startMs = narrations[narrations.length - 1]!.startMs;
+      holdMs = Math.max(holdMs, startMs + step.narration.durationMs - t);
+    }
+    segments.push({ kind: "hold", startMs: t, durationMs: holdMs, stop: k });
+    t += holdMs;
+
+    const next = stops[k + 1];
+    if (!next) break;
+    const into = steps[next.stepIndex]!;
+    const durationMs = Math.max(0, into.transitionMs ?? opts.transitionMs);
+    segments.push({
+      kind: "transition",
+      startMs: t,
+      durationMs,
+      from: k,
+      easing: into.easing ?? opts.easing,
+    });
+    t += durationMs;
+  }
+
+  return { totalMs: t, stops, segments, narrations };
+}
+
+// Segment playing at `ms`; a boundary belongs to the segment that starts there.
+export function segmentAt(timeline: Timeline, ms: number): TimelineSegment | undefined {
+  const { segments } = timeline;
+  for (const segment of segments) {
+    if (ms < segment.startMs + segment.durationMs) return segment;
+  }
+  return segments[segments.length - 1];
+}
+
+// Index of the stop shown at `ms`; during a transition, the stop being entered.
+export function stopIndexAt(timeline: Timeline, ms: number): number {
+  const segment = segmentAt(timeline, ms);
+  if (!segment) return 0;
+  return segment.kind === "hold" ? segment.stop : segment.from + 1;
+}
+
+// Start of the first hold of each step, in play order.
+export function stepStartsMs(timeline: Timeline): number[] {
+  return timeline.segments
+    .filter(
+      (s): s is Extract<TimelineSegment, { kind: "hold" }> =>
+        s.kind === "hold" && timeline.stops[s.stop]?.focusIndex === 0,
+    )
+    .map((s) => s.startMs);
+}
+
+/**
+ * Previous/next step start relative to `ms`. Going back from inside a step
+ * lands on that step's own start first, like a media player.
+ */
+export function adjacentStepMs(timeline: Timeline, ms: number, direction: -1 | 1): number {
+  const starts = stepStartsMs(timeline);
+  if (direction > 0) return starts.find((start) => start > ms + 1) ?? timeline.totalMs;
+  return starts.findLast((start) => start < ms - 1) ?? 0;
+}
+
+export type LoopMode = "off" | "loop" | "pingpong";
+
+export const PLAYBACK_RATES = [0.25, 0.5, 0.75, 1, 1.25, 1.5, 2] as const;
+
+/**
+ * Advances the playhead by `deltaMs` (negative plays backwards). Returns the
+ * new position, the direction to continue in, and whether playback ended.
+ */
+export function advancePlayhead(
+  ms: number,
+  deltaMs: number,
+  totalMs: number,
+  loopMode: LoopMode,
+): { ms: number; direction: -1 | 1; ended: boolean } {
+  const direction = deltaMs < 0 ? -1 : 1;
+  const next = ms + deltaMs;
+  if (next >= 0 && next < totalMs) return { ms: next, direction, ended: false };
+  if (totalMs <= 0) return { ms: 0, direction, ended: loopMode === "off" };
+
+  const atEnd = next >= totalMs;
+  switch (loopMode) {
+    case "off":
+      return { ms: atEnd ? totalMs : 0, direction, ended: true };
+    case "loop":
+      return { ms: atEnd ? 0 : totalMs, direction, ended: false };
+    case "pingpong":
+      // Bounce off the edge and keep the overshoot
+      return atEnd
+        ? { ms: Math.max(0, 2 * totalMs - next), direction: -1, ended: false }
+        : { ms: Math.min(totalMs, -next), direction: 1, ended: false };
+  }
+}
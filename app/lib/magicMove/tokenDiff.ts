@@ -0,0 +1,233 @@
+import type { LaidToken, LayoutResult } from "./codeLayout";
+
+export type TokenMatch = {
+  // Pairs of [fromIndex, toIndex] into the layouts' token arrays.
+  pairs: [number, number][];
+  removed: number[];
+  added: number[];
+};
+
+// Upper bound on the DP table size; beyond it we fall back to a greedy match.
+const MAX_LCS_CELLS = 4_000_000;
+
+/**
+ * Longest common subsequence of two sequences, returned as index pairs.
+ * Common prefix/suffix are trimmed first so that typical edits only pay
+ * for the changed region.
+ */
+function lcsPairs<T>(a: T[], b: T[], eq: (x: T, y: T) => boolean): [number, number][] {
+  const pairs: [number, number][] = [];
+  let start = 0;
+  while (start < a.length && start < b.length && eq(a[start]!, b[start]!)) {
+    pairs.push([start, start]);
+    start++;
+  }
+
+  let endA = a.length;
+  let endB = b.length;
+  const suffix: [number, number][] = [];
+  while (endA > start && endB > start && eq(a[endA - 1]!, b[endB - 1]!)) {
+    endA--;
+    endB--;
+    suffix.push([endA, endB]);
+  }
+
+  const n = endA - start;
+  const m = endB - start;
+  if (n > 0 && m > 0) {
+    if (n * m > MAX_LCS_CELLS) {
+      pairs.push(...greedyPairs(a, b, start, endA, endB, eq));
+    } else {
+      // table[i][j] = LCS length of a[start+i..endA) and b[start+j..endB)
+      const w = m + 1;
+      const table = new Uint32Array((n + 1) * w);
+      for (let i = n - 1; i >= 0; i--) {
+        for (let j = m - 1; j >= 0; j--) {
+          table[i * w + j] = eq(a[start + i]!, b[start + j]!)
+            ? table[(i + 1) * w + j + 1]! + 1
+            : Math.max(table[(i + 1) * w + j]!, table[i * w + j + 1]!);
+        }
+      }
+      let i = 0;
+      let j = 0;
+      while (i < n && j < m) {
+        if (eq(a[start + i]!, b[start + j]!)) {
+          pairs.push([start + i, start + j]);
+          i++;
+          j++;
+        } else if (table[(i + 1) * w + j]! >= table[i * w + j + 1]!) {
+          i++;
+        } else {
+          j++;
+        }
+      }
+    }
+  }
+
+  for (let k = suffix.length - 1; k >= 0; k--) pairs.push(suffix[k]!);
+  return pairs;
+}
+
+function greedyPairs<T>(
+  a: T[],
+  b: T[],
+  start: number,
+  endA: number,
+  endB: number,
+  eq: (x: T, y: T) => boolean,
+): [number, number][] {
+  const pairs: [number, number][] = [];
+  let j = start;
+  for (let i = start; i < endA && j < endB; i++) {
+    for (let k = j; k < endB; k++) {
+      if (eq(a[i]!, b[k]!)) {
+        pairs.push([i, k]);
+        j = k + 1;
+        break;
+      }
+    }
+  }
+  return pairs;
+}
+
+type LineGroup = {
+  key: string;
+  // Indices into the layout's token array.
+  tokens: number[];
+};
+
+function groupByLine(tokens: LaidToken[]): LineGroup[] {
+  const lines: LineGroup[] = [];
+  tokens.forEach((t, i) => {
+    while (lines.length <= t.line) lines.push({ key: "", tokens: [] });
+    lines[t.line]!.tokens.push(i);
+  });
+  for (const line of lines) {
+    line.key = line.tokens
+      .map((i) => tokens[i]!.content)
+      .join("")
+      .trim();
+  }
+  return lines;
+}
+
+function isBlank(t: LaidToken) {
+  return t.content.trim() === "";
+}
+
+/**
+ * Matches the tokens of two layouts with a two-level sequence diff.
+ *
+ * Lines are diffed first (by their trimmed text), so unchanged lines stay
+ * anchored even when identical tokens are inserted elsewhere. Tokens inside
+ * each changed hunk are then diffed by content, and finally whole lines
+ * that moved out of their hunk are paired up so they slide instead of fading.
+ */
+export function diffLayoutTokens(from: LayoutResult, to: LayoutResult): TokenMatch {
+  const a = from.tokens;
+  const b = to.tokens;
+  const linesA = groupByLine(a);
+  const linesB = groupByLine(b);
+
+  const pairs: [number, number][] = [];
+  const usedA = new Set<number>();
+  const usedB = new Set<number>();
+  const pair = (i: number, j: number) => {
+    pairs.push([i, j]);
+    usedA.add(i);
+    usedB.add(j);
+  };
+
+  const pairLineTokens = (la: LineGroup, lb: LineGroup) => {
+    const ta = la.tokens.filter((i) => !isBlank(a[i]!));
+    const tb = lb.tokens.filter((j) => !isBlank(b[j]!));
+    for (const [x, y] of lcsPairs(ta, tb, (i, j) => a[i]!.content === b[j]!.content)) {
+      pair(ta[x]!, tb[y]!);
+    }
+  };
+
+  const lineAnchors = lcsPairs(linesA, linesB, (x, y) => x.key !== "" && x.key === y.key);
+
+  // Walk the hunks between anchored lines and diff their tokens.
+  let prevA = 0;
+  let prevB = 0;
+  const diffHunk = (endA: number, endB: number) => {
+    const ta = linesA
+      .slice(prevA, endA)
+      .flatMap((l) => l.tokens)
+      .filter((i) => !isBlank(a[i]!));
+    const tb = linesB
+      .slice(prevB, endB)
+      .flatMap((l) => l.tokens)
+      .filter((j) => !isBlank(b[j]!));
+    if (ta.length === 0 || tb.length === 0) return;
+
+    // Moved lines are handled below; only diff tokens of lines that changed.
+    const keysB = new Set(linesB.slice(prevB, endB).map((l) => l.key));
+    const keysA = new Set(linesA.slice(prevA, endA).map((l) => l.key));
+    const changedA = ta.filter((i) => !keysB.has(linesA[a[i]!.line]!.key));
+    const changedB = tb.filter((j) => !keysA.has(linesB[b[j]!.line]!.key));
+    for (const [x, y] of lcsPairs(changedA, changedB, (i, j) => a[i]!.content === b[j]!.content)) {
+      pair(changedA[x]!, changedB[y]!);
+    }
+  };
+
+  for (const [la, lb] of lineAnchors) {
+    diffHunk(la, lb);
+    pairLineTokens(linesA[la]!, linesB[lb]!);
+    prevA = la + 1;
+    prevB = lb + 1;
+  }
+  diffHunk(linesA.length, linesB.length);
+
+  // Pair identical lines that moved, nearest source line first.
+  const anchoredA = new Set(lineAnchors.map(([la]) => la));
+  const anchoredB = new Set(lineAnchors.map(([, lb]) => lb));
+  const freeA = new Map<string, number[]>();
+  linesA.forEach((l, i) => {
+    if (anchoredA.has(i) || l.key === "") return;
+    if (l.tokens.some((t) => usedA.has(t))) return;
+    const list = freeA.get(l.key) ?? [];
+    list.push(i);
+    freeA.set(l.key, list);
+  });
+  linesB.forEach((l, j) => {
+    if (anchoredB.has(j) || l.key === "") return;
+    if (l.tokens.some((t) => usedB.has(t))) return;
+    const candidates = freeA.get(l.key);
+    if (!candidates || candidates.length === 0) return;
+    let best = 0;
+    for (let k = 1; k < candidates.length; k++) {
+      if (Math.abs(candidates[k]! - j) < Math.abs(candidates[best]! - j)) best = k;
+    }
+    const [la] = candidates.splice(best, 1);
+    pairLineTokens(linesA[la!]!, l);
+  });
+
+  const removed: number[] = [];
+  for (let i = 0; i < a.length; i++) if (!usedA.has(i)) removed.push(i);
+  const added: number[] = [];
+  for (let j = 0; j < b.length; j++) if (!usedB.has(j)) added.push(j);
+
+  return { pairs, removed, added };
+}
+
+const matchCache = new WeakMap<LayoutResult, WeakMap<LayoutResult, TokenMatch>>();
+
+/**
+ * Cached variant of `diffLayoutTokens`. Layouts are immutable once built, so
+ * the match for a pair is computed once and reused for every frame.
+ */
+export function matchLayoutTokens(from: LayoutResult, to: LayoutResult): TokenMatch {
+  let inner = matchCache.get(from);
+  if (!inner) {
+    inner = new WeakMap();
+    matchCache.set(from, inner);
+  }
+  let match = inner.get(to);
+  if (!match) {
+    match = diffLayoutTokens(from, to);
+    inner.set(to, match);
+  }
+  return match;
+}
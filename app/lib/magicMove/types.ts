@@ -1,14 +1,44 @@
+import type { EasingSpec } from "./easing";
+
 export type MagicMoveStepMeta = {
   lines: boolean;
   startLine: number;
+  // Focused lines as a range list like "2-4,7" (1-based); other lines are dimmed.
+  // Several focus states separated by "|" (e.g. "1-3|5-8|10") play as sub-steps.
+  highlight?: string;
+  // Opacity of lines outside the focus (0..1).
+  dimOpacity?: number;
+  // Paint a bar behind the focused lines.
+  highlightBar?: boolean;
 };
 
 export type MagicMoveStep = {
   lang: string;
   code: string;
   meta: MagicMoveStepMeta;
+  caption?: string;
+};
+
+// Recorded voiceover for a step.
+export type Narration = {
+  audio: Blob;
+  durationMs: number;
 };
 
 export type SimpleStep = {
   code: string;
+  // Language of this step; falls back to the project language.
+  lang?: string;
+  // Per-step overrides of the project line-number settings.
+  meta?: Partial<MagicMoveStepMeta>;
+  // Timing of this step; falls back to the project holds and transition duration.
+  // The hold applies to each focus state, the transition to each way in.
+  holdMs?: number;
+  transitionMs?: number;
+  // Easing of the transition into this step; falls back to the project easing.
+  easing?: EasingSpec;
+  // Played from the moment the step comes to rest; its hold stretches to fit.
+  narration?: Narration;
+  // Text shown under the code while the step is on screen.
+  caption?: string;
 };
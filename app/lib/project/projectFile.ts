@@ -0,0 +1,275 @@
+import { AVAILABLE_THEMES, type ShikiThemeChoice } from "../magicMove/shikiHighlighter";
+import { listEasingPresets, type EasingSpec } from "../magicMove/easing";
+import { MAX_DURATION_MS } from "../magicMove/timeline";
+import type { MagicMoveStepMeta, SimpleStep } from "../magicMove/types";
+import { makeDefaultProjectSettings, type ProjectSettings } from "./project";
+
+export const PROJECT_FILE_EXTENSION = ".magicmove.json";
+export const PROJECT_FILE_FORMAT = "magicmove";
+// Version of the file layout, independent of the IndexedDB schema
+export const PROJECT_FILE_VERSION = 1;
+
+export type ProjectFile = {
+  format: typeof PROJECT_FILE_FORMAT;
+  version: number;
+  name: string;
+  settings: ProjectSettings;
+  // Narration audio is not stored in files
+  steps: Omit<SimpleStep, "narration">[];
+};
+
+// Project content as stored in files and share links
+export type ProjectFileContent = {
+  name: string;
+  steps: SimpleStep[];
+  settings: ProjectSettings;
+};
+
+// Keys in a fixed order; undefined overrides drop out when stringified.
+export function toProjectFile(project: ProjectFileContent): ProjectFile {
+  return {
+    format: PROJECT_FILE_FORMAT,
+    version: PROJECT_FILE_VERSION,
+    name: project.name,
+    settings: project.settings,
+    steps: project.steps.map((step) => ({
+      code: step.code,
+      lang: step.lang,
+      meta: step.meta,
+      easing: step.easing,
+      holdMs: step.holdMs,
+      transitionMs: step.transitionMs,
+      caption: step.caption,
+    })),
+  };
+}
+
+// Pretty-printed so the file diffs well next to the code it animates.
+export function serializeProjectFile(project: ProjectFileContent): string {
+  return `${JSON.stringify(toProjectFile(project), null, 2)}\n`;
+}
+
+export function projectFileName(name: string) {
+  const base = name.trim().replace(/[\\/:*?"<>|]+/g, "-") || "animation";
+  return `${base}${PROJECT_FILE_EXTENSION}`;
+}
+
+type JsonObject = Record<string, unknown>;
+
+function fail(path: string, message: string): never {
+  throw new Error(`${path}: ${message}`);
+}
+
+// "steps[0]" + "meta" -> "steps[0].meta"; top-level fields use an empty path
+function field(path: string, key: string) {
+  return path ? `${path}.${key}` : key;
+}
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function expectObject(value: unknown, path: string): JsonObject {
+  if (!isObject(value)) fail(path, "expected an object");
+  return value;
+}
+
+function optionalString(obj: JsonObject, key: string, path: string): string | undefined {
+  const value = obj[key];
+  if (value === undefined) return undefined;
+  if (typeof value !== "string") fail(field(path, key), "expected a string");
+  return value;
+}
+
+function optionalBoolean(obj: JsonObject, key: string, path: string): boolean | undefined {
+  const value = obj[key];
+  if (value === undefined) return undefined;
+  if (typeof value !== "boolean") fail(field(path, key), "expected true or false");
+  return value;
+}
+
+function optionalNumber(
+  obj: JsonObject,
+  key: string,
+  path: string,
+  range: { min: number; max: number; integer?: boolean },
+): number | undefined {
+  const value = obj[key];
+  if (value === undefined) return undefined;
+  const at = field(path, key);
+  if (typeof value !== "number" || !Number.isFinite(value)) fail(at, "expected a number");
+  if (range.integer && !Number.isInteger(value)) fail(at, "expected a whole number");
+  if (value < range.min) fail(at, `expected at least ${range.min}, got ${value}`);
+  if (value > range.max) fail(at, `expected at most ${range.max}, got ${value}`);
+  return value;
+}
+
+function readEasing(value: unknown, path: string): EasingSpec {
+  const obj = expectObject(value, path);
+  const num = (key: string, min: number, max: number) => {
+    const n = optionalNumber(obj, key, path, { min, max });
+    if (n === undefined) fail(`${path}.${key}`, "is required");
+    return n;
+  };
+  switch (obj.type) {
+    case "preset": {
+      const name = optionalString(obj, "name", path);
+      if (!name || !listEasingPresets().includes(name)) {
+        fail(`${path}.name`, `unknown easing preset "${name ?? ""}"`);
+      }
+      return { type: "preset", name };
+    }
+    case "cubic-bezier":
+      return {
+        type: "cubic-bezier",
+        x1: num("x1", 0, 1),
+        y1: num("y1", -Infinity, Infinity),
+        x2: num("x2", 0, 1),
+        y2: num("y2", -Infinity, Infinity),
+      };
+    case "spring":
+      return {
+        type: "spring",
+        stiffness: num("stiffness", 1, Infinity),
+        damping: num("damping", 0, Infinity),
+        mass: num("mass", 0.1, Infinity),
+      };
+    default:
+      return fail(`${path}.type`, 'expected "preset", "cubic-bezier" or "spring"');
+  }
+}
+
+function readSettings(value: unknown): ProjectSettings {
+  const defaults = makeDefaultProjectSettings();
+  if (value === undefined) return defaults;
+  const path = "settings";
+  const obj = expectObject(value, path);
+
+  const theme = optionalString(obj, "theme", path);
+  if (theme !== undefined && !AVAILABLE_THEMES.includes(theme as ShikiThemeChoice)) {
+    fail(`${path}.theme`, `unknown theme "${theme}" (one of ${AVAILABLE_THEMES.join(", ")})`);
+  }
+  const frameMode = optionalString(obj, "frameMode", path);
+  if (frameMode !== undefined && frameMode !== "fit" && frameMode !== "camera") {
+    fail(`${path}.frameMode`, 'expected "fit" or "camera"');
+  }
+
+  let frameSize = defaults.frameSize;
+  if (obj.frameSize !== undefined) {
+    const size = expectObject(obj.frameSize, `${path}.frameSize`);
+    // Same bounds as the frame size inputs; encoders need even dimensions
+    const dimension = (key: "width" | "height") => {
+      const n = optionalNumber(size, key, `${path}.frameSize`, {
+        min: 320,
+        max: 7680,
+        integer: true,
+      });
+      if (n !== undefined && n % 2 !== 0)
+        fail(`${path}.frameSize.${key}`, "expected an even number");
+      return n ?? defaults.frameSize[key];
+    };
+    frameSize = { width: dimension("width"), height: dimension("height") };
+  }
+
+  let phases = defaults.phases;
+  if (obj.phases !== undefined) {
+    const p = expectObject(obj.phases, `${path}.phases`);
+    const at = `${path}.phases`;
+    const share = { min: 0, max: 100 };
+    phases = {
+      enabled: optionalBoolean(p, "enabled", at) ?? phases.enabled,
+      exit: optionalNumber(p, "exit", at, share) ?? phases.exit,
+      move: optionalNumber(p, "move", at, share) ?? phases.move,
+      enter: optionalNumber(p, "enter", at, share) ?? phases.enter,
+      lineStaggerMs:
+        optionalNumber(p, "lineStaggerMs", at, { min: 0, max: 1000 }) ?? phases.lineStaggerMs,
+    };
+  }
+
+  const ms = { min: 0, max: MAX_DURATION_MS };
+  return {
+    lang: optionalString(obj, "lang", path) || defaults.lang,
+    theme: (theme as ShikiThemeChoice | undefined) ?? defaults.theme,
+    showLineNumbers: optionalBoolean(obj, "showLineNumbers", path) ?? defaults.showLineNumbers,
+    startLine:
+      optionalNumber(obj, "startLine", path, { min: 1, max: 9999, integer: true }) ??
+      defaults.startLine,
+    dimOpacity: optionalNumber(obj, "dimOpacity", path, { min: 0, max: 1 }) ?? defaults.dimOpacity,
+    highlightBar: optionalBoolean(obj, "highlightBar", path) ?? defaults.highlightBar,
+    fps: optionalNumber(obj, "fps", path, { min: 1, max: 120, integer: true }) ?? defaults.fps,
+    transitionMs: optionalNumber(obj, "transitionMs", path, ms) ?? defaults.transitionMs,
+    phases,
+    easing: obj.easing === undefined ? defaults.easing : readEasing(obj.easing, `${path}.easing`),
+    startHoldMs: optionalNumber(obj, "startHoldMs", path, ms) ?? defaults.startHoldMs,
+    betweenHoldMs: optionalNumber(obj, "betweenHoldMs", path, ms) ?? defaults.betweenHoldMs,
+    endHoldMs: optionalNumber(obj, "endHoldMs", path, ms) ?? defaults.endHoldMs,
+    frameMode: (frameMode as ProjectSettings["frameMode"] | undefined) ?? defaults.frameMode,
+    frameSize,
+  };
+}
+
+function readMeta(value: unknown, path: string): Partial<MagicMoveStepMeta> {
+  const obj = expectObject(value, path);
+  return {
+    lines: optionalBoolean(obj, "lines", path),
+    startLine: optionalNumber(obj, "startLine", path, { min: 1, max: 9999, integer: true }),
+    highlight: optionalString(obj, "highlight", path),
+    dimOpacity: optionalNumber(obj, "dimOpacity", path, { min: 0, max: 1 }),
+    highlightBar: optionalBoolean(obj, "highlightBar", path),
+  };
+}
+
+function readStep(value: unknown, path: string): SimpleStep {
+  const obj = expectObject(value, path);
+  const code = obj.code;
+  if (typeof code !== "string") fail(`${path}.code`, "expected the step's code as a string");
+  const ms = { min: 0, max: MAX_DURATION_MS };
+  return {
+    code,
+    lang: optionalString(obj, "lang", path) || undefined,
+    meta: obj.meta === undefined ? undefined : readMeta(obj.meta, `${path}.meta`),
+    easing: obj.easing === undefined ? undefined : readEasing(obj.easing, `${path}.easing`),
+    holdMs: optionalNumber(obj, "holdMs", path, ms),
+    transitionMs: optionalNumber(obj, "transitionMs", path, ms),
+    caption: optionalString(obj, "caption", path) || undefined,
+  };
+}
+
+/**
+ * Validates a parsed `.magicmove.json` file. Errors name the offending field,
+ * e.g. `steps[2].meta.startLine: expected a whole number`.
+ */
+export function readProjectFile(json: unknown): ProjectFileContent {
+  const root = expectObject(json, "file");
+  if (root.format !== PROJECT_FILE_FORMAT) {
+    fail("format", `expected "${PROJECT_FILE_FORMAT}"; this is not a Magic Move project file`);
+  }
+  const version = optionalNumber(root, "version", "", {
+    min: 1,
+    max: Infinity,
+    integer: true,
+  });
+  if (version === undefined) fail("version", "is required");
+  if (version > PROJECT_FILE_VERSION) {
+    fail("version", `file version ${version} is newer than this app supports; please update`);
+  }
+
+  if (!Array.isArray(root.steps) || root.steps.length === 0) {
+    fail("steps", "expected a non-empty list of steps");
+  }
+  return {
+    name: optionalString(root, "name", "")?.trim() || "Imported",
+    steps: root.steps.map((step, i) => readStep(step, `steps[${i}]`)),
+    settings: readSettings(root.settings),
+  };
+}
+
+export function parseProjectFile(text: string): ProjectFileContent {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch (e) {
+    throw new Error(`Not valid JSON: ${e instanceof Error ? e.message : String(e)}`);
+  }
+  return readProjectFile(json);
+}
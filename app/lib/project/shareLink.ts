@@ -0,0 +1,68 @@
+import { readProjectFile, toProjectFile, type ProjectFileContent } from "./projectFile";
+
+// `/editor#project=<base64url of the deflated project file>`
+const HASH_KEY = "project=";
+
+// Longer links get cut off or refused by some chat apps and browsers
+export const SHARE_URL_WARN_LENGTH = 2000;
+
+async function pipeText(bytes: BlobPart, transform: CompressionStream | DecompressionStream) {
+  const stream = new Blob([bytes]).stream().pipeThrough(transform);
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function toBase64Url(bytes: Uint8Array) {
+  let binary = "";
+  // Chunked: spreading a large array into fromCharCode overflows the stack
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(text: string) {
+  const binary = atob(text.replace(/-/g, "+").replace(/_/g, "/"));
+  return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+}
+
+/**
+ * Link that reopens the project on any machine: the project file, deflated
+ * and base64url-encoded into the hash, so it never reaches a server.
+ */
+export async function createShareUrl(project: ProjectFileContent, pageUrl: string) {
+  if (typeof CompressionStream === "undefined") {
+    throw new Error("This browser cannot create share links");
+  }
+  const json = JSON.stringify(toProjectFile(project));
+  const compressed = await pipeText(json, new CompressionStream("deflate-raw"));
+  const url = new URL(pageUrl);
+  url.hash = `${HASH_KEY}${toBase64Url(compressed)}`;
+  return url.toString();
+}
+
+function isShareHash(hash: string) {
+  return hash.replace(/^#/, "").startsWith(HASH_KEY);
+}
+
+/**
+ * Project encoded in a `location.hash`, or null when the hash is not a share
+ * link. Throws when the link is truncated or holds an invalid project.
+ */
+export async function readShareHash(hash: string): Promise<ProjectFileContent | null> {
+  if (!isShareHash(hash)) return null;
+  const data = hash.replace(/^#/, "").slice(HASH_KEY.length);
+  let json: unknown;
+  try {
+    const bytes = await pipeText(fromBase64Url(data), new DecompressionStream("deflate-raw"));
+    json = JSON.parse(new TextDecoder().decode(bytes));
+  } catch {
+    throw new Error("This share link is damaged or incomplete; ask for the full link");
+  }
+  try {
+    return readProjectFile(json);
+  } catch (e) {
+    throw new Error(
+      `This share link holds an invalid project: ${e instanceof Error ? e.message : String(e)}`,
+    );
+  }
+}
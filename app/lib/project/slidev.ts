@@ -0,0 +1,177 @@
+import { normalizeLang } from "../magicMove/shikiHighlighter";
+import type { MagicMoveStepMeta, SimpleStep } from "../magicMove/types";
+import type { ProjectSettings } from "./project";
+
+/**
+ * A Slidev ````md magic-move block:
+ *
+ *   ````md magic-move {lines: true}
+ *   ```ts {1-3|5}
+ *   ...
+ *   ```
+ *   ```ts {*} {lines:true,startLine:5}
+ *   ...
+ *   ```
+ *   ````
+ */
+export type SlidevMagicMoveBlock = {
+  // From `[title]` on the outer fence
+  title?: string;
+  // Language of the first step; steps in another language keep their own
+  lang: string;
+  // Options on the outer fence, applying to every step
+  lines?: boolean;
+  startLine?: number;
+  steps: SimpleStep[];
+};
+
+type FenceOptions = Partial<Pick<MagicMoveStepMeta, "lines" | "startLine">>;
+
+const OUTER_FENCE = /^(\s*)(`{4,}|~{4,})\s*(?:md|markdown)\s+magic-move\b(.*)$/;
+const INNER_FENCE = /^(\s*)(`{3,}|~{3,})\s*([^\s{[]*)(.*)$/;
+
+function isClosingFence(line: string, fence: string) {
+  const trimmed = line.trim();
+  return trimmed.length >= fence.length && trimmed === fence[0]!.repeat(trimmed.length);
+}
+
+// `{lines:true,startLine:5}`: a JS object literal, as Slidev writes it
+function parseFenceOptions(body: string, where: string): FenceOptions {
+  const options: FenceOptions = {};
+  for (const part of body.split(",")) {
+    if (!part.trim()) continue;
+    const m = /^\s*["']?(\w+)["']?\s*:\s*(.+?)\s*$/.exec(part);
+    if (!m) throw new Error(`${where}: cannot read option "${part.trim()}"`);
+    const key = m[1]!;
+    const value = m[2]!;
+    if (key === "lines") {
+      if (value !== "true" && value !== "false") {
+        throw new Error(`${where}: lines must be true or false, got ${value}`);
+      }
+      options.lines = value === "true";
+    } else if (key === "startLine") {
+      const n = Number(value);
+      if (!Number.isInteger(n) || n < 1) {
+        throw new Error(`${where}: startLine must be a positive whole number, got ${value}`);
+      }
+      options.startLine = n;
+    }
+    // Other Slidev options (duration, stagger, maxHeight, ...) have no equivalent here
+  }
+  return options;
+}
+
+// Brace groups after the language: a highlight list like `{1-3|5}`, options
+// like `{lines:true}`, or both; `[title]` labels are skipped.
+function parseFenceInfo(info: string, where: string) {
+  let highlight: string | undefined;
+  let options: FenceOptions = {};
+  for (const [, body] of info.matchAll(/\{([^}]*)\}/g)) {
+    if (body!.includes(":")) options = { ...options, ...parseFenceOptions(body!, where) };
+    else highlight = body!.trim();
+  }
+  const title = /\[([^\]]*)\]/.exec(info)?.[1]?.trim();
+  return { highlight, options, title: title || undefined };
+}
+
+/**
+ * Finds every ````md magic-move block in a Markdown document (a whole Slidev
+ * deck works) and reads its fenced steps. Throws when there is no block, a
+ * fence is left open, or an option has the wrong type.
+ */
+export function parseSlidevMagicMove(markdown: string): SlidevMagicMoveBlock[] {
+  const lines = markdown.replace(/\r\n?/g, "\n").split("\n");
+  const blocks: SlidevMagicMoveBlock[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const outer = OUTER_FENCE.exec(lines[i]!);
+    if (!outer) continue;
+    const where = `Block ${blocks.length + 1} (line ${i + 1})`;
+    const outerFence = outer[2]!;
+    const outerInfo = parseFenceInfo(outer[3]!, where);
+    const steps: SimpleStep[] = [];
+    const langs: string[] = [];
+    let closed = false;
+
+    for (i++; i < lines.length; i++) {
+      const line = lines[i]!;
+      if (isClosingFence(line, outerFence)) {
+        closed = true;
+        break;
+      }
+      const inner = INNER_FENCE.exec(line);
+      if (!inner || inner[2]!.length >= outerFence.length) continue;
+
+      const stepWhere = `${where}, step ${steps.length + 1}`;
+      const indent = inner[1]!;
+      const fence = inner[2]!;
+      const { highlight, options } = parseFenceInfo(inner[4]!, stepWhere);
+      const code: string[] = [];
+      let stepClosed = false;
+      for (i++; i < lines.length; i++) {
+        if (isClosingFence(lines[i]!, fence)) {
+          stepClosed = true;
+          break;
+        }
+        // Content is indented like its fence
+        code.push(lines[i]!.startsWith(indent) ? lines[i]!.slice(indent.length) : lines[i]!);
+      }
+      if (!stepClosed) throw new Error(`${stepWhere}: missing closing ${fence}`);
+
+      langs.push(normalizeLang(inner[3]!));
+      const meta: Partial<MagicMoveStepMeta> = { ...options };
+      if (highlight) meta.highlight = highlight;
+      steps.push({ code: code.join("\n"), meta: Object.keys(meta).length ? meta : undefined });
+    }
+
+    if (!closed) throw new Error(`${where}: missing closing ${outerFence}`);
+    if (steps.length === 0) throw new Error(`${where}: no fenced code steps inside`);
+    const blockLang = langs[0]!;
+    blocks.push({
+      title: outerInfo.title,
+      lang: blockLang,
+      lines: outerInfo.options.lines,
+      startLine: outerInfo.options.startLine,
+      steps: steps.map((step, k) => (langs[k] === blockLang ? step : { ...step, lang: langs[k] })),
+    });
+  }
+
+  if (blocks.length === 0) throw new Error("No ````md magic-move block found");
+  return blocks;
+}
+
+// One backtick more than the longest run inside, and at least `min`
+function fenceFor(text: string, min: number) {
+  const longest = Math.max(0, ...(text.match(/`+/g) ?? []).map((run) => run.length));
+  return "`".repeat(Math.max(min, longest + 1));
+}
+
+/**
+ * Formats steps as a Slidev ````md magic-move block. Line numbers go on the
+ * outer fence; start lines other than 1 and per-step overrides on each step.
+ */
+export function formatSlidevMagicMove(
+  steps: SimpleStep[],
+  settings: Pick<ProjectSettings, "lang" | "showLineNumbers" | "startLine">,
+): string {
+  const inner = fenceFor(steps.map((step) => step.code).join("\n"), 3);
+  const outer = fenceFor(inner, 4);
+
+  const fences = steps.map((step) => {
+    const meta = step.meta ?? {};
+    const options: string[] = [];
+    if (meta.lines !== undefined && meta.lines !== settings.showLineNumbers) {
+      options.push(`lines:${meta.lines}`);
+    }
+    const startLine = meta.startLine ?? settings.startLine;
+    if (startLine !== 1) options.push(`startLine:${startLine}`);
+
+    let info = step.lang ?? settings.lang;
+    if (meta.highlight?.trim()) info += ` {${meta.highlight.trim()}}`;
+    if (options.length > 0) info += ` {${options.join(",")}}`;
+    return `${inner}${info}\n${step.code}\n${inner}`;
+  });
+
+  const outerOptions = settings.showLineNumbers ? " {lines: true}" : "";
+  return `${outer}md magic-move${outerOptions}\n${fences.join("\n")}\n${outer}\n`;
+}
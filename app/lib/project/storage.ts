@@ -0,0 +1,103 @@
+import { migrateProject, type Project, type ProjectSummary } from "./project";
+
+const DB_NAME = "mellow-lines";
+const DB_VERSION = 2;
+const STORE = "projects";
+// Name and date of every project, so listing them does not read whole projects
+const SUMMARY_STORE = "summaries";
+// Project reopened on the next visit
+const LAST_PROJECT_KEY = "mellow-lines:last-project";
+
+let opening: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (typeof indexedDB === "undefined") {
+    return Promise.reject(new Error("This browser cannot store projects"));
+  }
+  opening ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      // Projects are whole records (Blobs included), keyed by id
+      if (!req.result.objectStoreNames.contains(STORE)) {
+        req.result.createObjectStore(STORE, { keyPath: "id" });
+      }
+      if (!req.result.objectStoreNames.contains(SUMMARY_STORE)) {
+        const summaries = req.result.createObjectStore(SUMMARY_STORE, { keyPath: "id" });
+        // Version 1 databases: summarize the projects saved so far, once
+        const cursorReq = req.transaction!.objectStore(STORE).openCursor();
+        cursorReq.onsuccess = () => {
+          const cursor = cursorReq.result;
+          if (!cursor) return;
+          summaries.put(toSummary(cursor.value as Project));
+          cursor.continue();
+        };
+      }
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error ?? new Error("Failed to open project storage"));
+  }).catch((e: unknown) => {
+    opening = null;
+    throw e;
+  });
+  return opening;
+}
+
+function toSummary({ id, name, updatedAt }: Project): ProjectSummary {
+  return { id, name, updatedAt };
+}
+
+// Writes go to both stores in one transaction, so the summaries never drift
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore, summaries: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction([STORE, SUMMARY_STORE], mode);
+    const req = run(tx.objectStore(STORE), tx.objectStore(SUMMARY_STORE));
+    tx.oncomplete = () => resolve(req.result);
+    tx.onerror = () => reject(tx.error ?? new Error("Project storage failed"));
+    tx.onabort = () => reject(tx.error ?? new Error("Project storage was aborted"));
+  });
+}
+
+// Most recently edited first
+export async function listProjects(): Promise<ProjectSummary[]> {
+  const all = await withStore("readonly", (_, summaries) => summaries.getAll());
+  return (all as ProjectSummary[]).sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function loadProject(id: string): Promise<Project | null> {
+  const stored = await withStore("readonly", (store) => store.get(id));
+  return stored ? migrateProject(stored as Record<string, unknown>) : null;
+}
+
+export async function saveProject(project: Project): Promise<void> {
+  await withStore("readwrite", (store, summaries) => {
+    summaries.put(toSummary(project));
+    return store.put(project);
+  });
+}
+
+export async function deleteProject(id: string): Promise<void> {
+  await withStore("readwrite", (store, summaries) => {
+    summaries.delete(id);
+    return store.delete(id);
+  });
+}
+
+export function getLastProjectId(): string | null {
+  try {
+    return localStorage.getItem(LAST_PROJECT_KEY);
+  } catch {
+    return null;
+  }
+}
+
+export function setLastProjectId(id: string) {
+  try {
+    localStorage.setItem(LAST_PROJECT_KEY, id);
+  } catch {
+    // Private mode or storage disabled; the first project opens instead
+  }
+}
@@ -0,0 +1,100 @@
+import { createApngEncoder } from "./apngEncoder";
+import { createGifEncoder, quantizeFrame } from "./gifEncoder";
+
+export type AnimatedImageFormat = "gif" | "apng";
+
+export type AnimatedImageOptions = {
+  // Capped by the project FPS; GIF delays are whole centiseconds, so at most 50.
+  fps: number;
+  // Output size relative to the rendered frame (0.25–1)
+  scale: number;
+  // GIF only: Floyd–Steinberg dithering smooths gradients but grows the file
+  dither: boolean;
+};
+
+export const DEFAULT_ANIMATED_IMAGE_OPTIONS: AnimatedImageOptions = {
+  fps: 15,
+  scale: 0.5,
+  dither: false,
+};
+
+export const MAX_ANIMATED_IMAGE_FPS = 50;
+
+function nextTask() {
+  return new Promise<void>((resolve) => setTimeout(resolve, 0));
+}
+
+function sameFrame(a: ArrayLike<number>, b: ArrayLike<number>) {
+  if (a.length !== b.length) return false;
+  for (let i = 0; i < a.length; i++) if (a[i] !== b[i]) return false;
+  return true;
+}
+
+/**
+ * Renders the animation frame by frame into a looping GIF or APNG. Frames
+ * are drawn at full size with `renderFrame`, then downscaled. Consecutive
+ * identical frames (holds) are merged into one longer frame.
+ */
+export async function encodeAnimatedImage(opts: {
+  canvas: HTMLCanvasElement;
+  durationMs: number;
+  format: AnimatedImageFormat;
+  options: AnimatedImageOptions;
+  renderFrame: (timeMs: number) => void;
+  onProgress?: (progress: number) => void;
+  signal?: AbortSignal;
+}): Promise<Blob> {
+  const { canvas, durationMs, format, options } = opts;
+  const fps = Math.max(1, Math.min(MAX_ANIMATED_IMAGE_FPS, options.fps));
+  const scale = Math.max(0.1, Math.min(1, options.scale));
+  const width = Math.max(1, Math.round(canvas.width * scale));
+  const height = Math.max(1, Math.round(canvas.height * scale));
+
+  const target = document.createElement("canvas");
+  target.width = width;
+  target.height = height;
+  const ctx = target.getContext("2d", { willReadFrequently: true });
+  if (!ctx) throw new Error("Canvas 2D not supported");
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = "high";
+
+  const gif = format === "gif" ? createGifEncoder(width, height) : null;
+  const apng = format === "apng" ? createApngEncoder(width, height) : null;
+
+  // Delays are derived from rounded timestamps so rounding never accumulates;
+  // GIF counts in centiseconds, APNG in milliseconds.
+  const unitsPerSecond = gif ? 100 : 1000;
+  const timeAt = (i: number) =>
+    Math.round((Math.min(durationMs, (i * 1000) / fps) * unitsPerSecond) / 1000);
+  const frameCount = Math.ceil((durationMs * fps) / 1000) + 1;
+
+  let pending: { pixels: Uint8ClampedArray; start: number } | null = null;
+  const flush = async (end: number) => {
+    if (!pending) return;
+    // A frame lasts until the next distinct frame; browsers slow GIF delays under 2cs down
+    const delay = Math.max(gif ? 2 : 1, end - pending.start);
+    if (gif)
+      gif.addFrame(quantizeFrame(pending.pixels, width, height, { dither: options.dither }), delay);
+    else await apng!.addFrame(pending.pixels, delay);
+  };
+
+  for (let i = 0; i < frameCount; i++) {
+    opts.signal?.throwIfAborted();
+    opts.renderFrame(Math.min(durationMs, (i * 1000) / fps));
+    ctx.drawImage(canvas, 0, 0, width, height);
+    const pixels = ctx.getImageData(0, 0, width, height).data;
+
+    if (!pending || !sameFrame(pending.pixels, pixels)) {
+      await flush(timeAt(i));
+      pending = { pixels, start: timeAt(i) };
+    }
+
+    opts.onProgress?.(i / frameCount);
+    await nextTask();
+  }
+  // The final frame keeps one frame interval of display time
+  await flush(timeAt(frameCount - 1) + Math.round(unitsPerSecond / fps));
+
+  opts.onProgress?.(1);
+  return gif ? gif.finish() : apng!.finish();
+}
@@ -0,0 +1,124 @@
+import { crc32 } from "./crc32";
+
+/**
+ * Minimal APNG encoder. Frames are RGBA pixels as returned by `getImageData`
+ * and are stored as opaque RGB, compressed with the browser's zlib
+ * `CompressionStream`.
+ */
+
+function chunk(type: string, data: Uint8Array) {
+  const out = new Uint8Array(12 + data.length);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) out[4 + i] = type.charCodeAt(i);
+  out.set(data, 8);
+  view.setUint32(8 + data.length, crc32(out.subarray(4, 8 + data.length)));
+  return out;
+}
+
+// Filters each row with whichever of None/Sub/Up gives the smallest residuals.
+function filterScanlines(rgba: Uint8ClampedArray, width: number, height: number) {
+  const stride = width * 3;
+  const out = new Uint8Array(height * (stride + 1));
+  const row = new Uint8Array(stride);
+  const prev = new Uint8Array(stride);
+  const candidates = [new Uint8Array(stride), new Uint8Array(stride), new Uint8Array(stride)];
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = (y * width + x) * 4;
+      row[x * 3] = rgba[p]!;
+      row[x * 3 + 1] = rgba[p + 1]!;
+      row[x * 3 + 2] = rgba[p + 2]!;
+    }
+
+    const [none, sub, up] = candidates as [Uint8Array, Uint8Array, Uint8Array];
+    const sums = [0, 0, 0];
+    for (let i = 0; i < stride; i++) {
+      const v = row[i]!;
+      none[i] = v;
+      sub[i] = (v - (i >= 3 ? row[i - 3]! : 0)) & 0xff;
+      up[i] = (v - prev[i]!) & 0xff;
+      // Residuals near 0 or 256 both compress well; score them as signed bytes
+      sums[0] += none[i]! < 128 ? none[i]! : 256 - none[i]!;
+      sums[1] += sub[i]! < 128 ? sub[i]! : 256 - sub[i]!;
+      sums[2] += up[i]! < 128 ? up[i]! : 256 - up[i]!;
+    }
+    let filter = 0;
+    for (let f = 1; f < 3; f++) if (sums[f]! < sums[filter]!) filter = f;
+
+    const offset = y * (stride + 1);
+    out[offset] = filter;
+    out.set(candidates[filter]!, offset + 1);
+    prev.set(row);
+  }
+  return out;
+}
+
+async function deflate(data: Uint8Array) {
+  const stream = new Blob([data as BlobPart])
+    .stream()
+    .pipeThrough(new CompressionStream("deflate"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Collects frames for a looping APNG. Frame count is only known at the end
+ * (it is written in the header), so compressed frames are buffered.
+ */
+export function createApngEncoder(width: number, height: number) {
+  const frames: { data: Uint8Array; delayMs: number }[] = [];
+
+  return {
+    async addFrame(rgba: Uint8ClampedArray, delayMs: number) {
+      frames.push({ data: await deflate(filterScanlines(rgba, width, height)), delayMs });
+    },
+    finish() {
+      const parts: Uint8Array[] = [
+        new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+      ];
+
+      const ihdr = new Uint8Array(13);
+      const ihdrView = new DataView(ihdr.buffer);
+      ihdrView.setUint32(0, width);
+      ihdrView.setUint32(4, height);
+      ihdr[8] = 8; // Bit depth
+      ihdr[9] = 2; // Truecolor RGB
+      parts.push(chunk("IHDR", ihdr));
+
+      const actl = new Uint8Array(8);
+      const actlView = new DataView(actl.buffer);
+      actlView.setUint32(0, frames.length);
+      actlView.setUint32(4, 0); // Loop forever
+      parts.push(chunk("acTL", actl));
+
+      let sequence = 0;
+      frames.forEach((frame, i) => {
+        const fctl = new Uint8Array(26);
+        const v = new DataView(fctl.buffer);
+        v.setUint32(0, sequence++);
+        v.setUint32(4, width);
+        v.setUint32(8, height);
+        v.setUint32(12, 0);
+        v.setUint32(16, 0);
+        v.setUint16(20, Math.max(1, Math.min(0xffff, Math.round(frame.delayMs))));
+        v.setUint16(22, 1000);
+        // dispose_op and blend_op stay 0 (none / source): every frame is full size
+        parts.push(chunk("fcTL", fctl));
+
+        if (i === 0) {
+          // The first frame doubles as the default image for non-APNG viewers
+          parts.push(chunk("IDAT", frame.data));
+        } else {
+          const fdat = new Uint8Array(4 + frame.data.length);
+          new DataView(fdat.buffer).setUint32(0, sequence++);
+          fdat.set(frame.data, 4);
+          parts.push(chunk("fdAT", fdat));
+        }
+      });
+
+      parts.push(chunk("IEND", new Uint8Array(0)));
+      return new Blob(parts as BlobPart[], { type: "image/png" });
+    },
+  };
+}
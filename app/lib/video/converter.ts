@@ -1,28 +1,62 @@
 import { FFmpeg } from "@ffmpeg/ffmpeg";
 import { fetchFile, toBlobURL } from "@ffmpeg/util";
+import { DEFAULT_ENCODER_SETTINGS, type EncoderSettings } from "./encoderSettings";
 
 let ffmpeg: FFmpeg | null = null;
+let loading: Promise<FFmpeg> | null = null;
 
-export async function convertWebmToMp4(
-  webmBlob: Blob,
-  onProgress?: (progress: number) => void,
-  totalDurationMs?: number,
-): Promise<Blob> {
-  // Lazy init
-  if (!ffmpeg) {
-    ffmpeg = new FFmpeg();
+// The core is served from the app's own origin (copied to public/ffmpeg by
+// scripts/copy-ffmpeg-core.mjs). Set NEXT_PUBLIC_FFMPEG_BASE_URL to host it elsewhere.
+export const FFMPEG_BASE_URL = (process.env.NEXT_PUBLIC_FFMPEG_BASE_URL || "/ffmpeg").replace(
+  /\/+$/,
+  "",
+);
+
+/**
+ * Loads the FFmpeg core once; concurrent callers share the same load. A failed
+ * load is not cached, so the next call retries.
+ */
+export function loadFFmpeg(): Promise<FFmpeg> {
+  if (ffmpeg) return Promise.resolve(ffmpeg);
+  if (loading) return loading;
 
-    // Load core from CDN
-    const baseURL = "https://unpkg.com/@ffmpeg/core@0.12.6/dist/esm";
+  const pending = (async () => {
+    const instance = new FFmpeg();
     try {
-      await ffmpeg.load({
-        coreURL: await toBlobURL(`${baseURL}/ffmpeg-core.js`, "text/javascript"),
-        wasmURL: await toBlobURL(`${baseURL}/ffmpeg-core.wasm`, "application/wasm"),
+      await instance.load({
+        coreURL: await toBlobURL(`${FFMPEG_BASE_URL}/ffmpeg-core.js`, "text/javascript"),
+        wasmURL: await toBlobURL(`${FFMPEG_BASE_URL}/ffmpeg-core.wasm`, "application/wasm"),
       });
     } catch (e) {
-      throw new Error(`Failed to load FFmpeg: ${e}`);
+      instance.terminate();
+      const reason = e instanceof Error ? e.message : String(e);
+      throw new Error(
+        `Failed to load FFmpeg from ${FFMPEG_BASE_URL} (${reason}). MP4 conversion needs ffmpeg-core.js and ffmpeg-core.wasm at that path.`,
+      );
     }
-  }
+    ffmpeg = instance;
+    return instance;
+  })();
+
+  loading = pending;
+  const settle = () => {
+    loading = null;
+  };
+  pending.then(settle, settle);
+  return pending;
+}
+
+export async function convertWebmToMp4(
+  webmBlob: Blob,
+  onProgress?: (progress: number) => void,
+  totalDurationMs?: number,
+  settings: EncoderSettings = DEFAULT_ENCODER_SETTINGS,
+  signal?: AbortSignal,
+): Promise<Blob> {
+  signal?.throwIfAborted();
+  // An abort during loading lets the load finish, so the next export starts warm
+  const ffmpeg = await loadFFmpeg();
+  signal?.throwIfAborted();
 
   const inputName = "input.webm";
   const outputName = "output.mp4";
@@ -42,26 +76,60 @@ export async function convertWebmToMp4(
 
   ffmpeg.on("progress", progressHandler);
 
+  // A running exec cannot be interrupted, so aborting terminates the worker.
+  // Its virtual files go with it and the next conversion loads a fresh core.
+  const onAbort = () => {
+    void terminateFFmpeg();
+  };
+  signal?.addEventListener("abort", onAbort, { once: true });
+
   try {
     // Write input (use fetchFile for memory efficiency)
     await ffmpeg.writeFile(inputName, await fetchFile(webmBlob));
+    signal?.throwIfAborted();
 
     // Convert with H.264
+    const rateArgs =
+      settings.rateControl === "crf"
+        ? ["-crf", String(settings.crf)] // Lower = better, 18 is visually lossless
+        : [
+            "-b:v",
+            `${settings.mp4BitrateKbps}k`,
+            "-maxrate",
+            `${settings.mp4BitrateKbps}k`,
+            "-bufsize",
+            `${settings.mp4BitrateKbps * 2}k`,
+          ];
     await ffmpeg.exec([
       "-i",
       inputName,
       "-c:v",
       "libx264",
       "-preset",
-      "medium",
-      "-crf",
-      "18", // High quality (lower = better, 18 is visually lossless)
+      settings.preset,
+      ...rateArgs,
+      // Baseline/Main/High only allow 4:2:0; 4:4:4 needs the High 4:4:4 profile
+      "-profile:v",
+      settings.pixelFormat === "yuv444p" ? "high444" : settings.profile,
       "-pix_fmt",
-      "yuv420p", // Ensures compatibility with most players
-      "-an", // No audio
+      settings.pixelFormat,
+      // Keyframe every N seconds of output, independent of frame rate
+      "-force_key_frames",
+      `expr:gte(t,n_forced*${settings.keyframeIntervalS})`,
+      // Keep the soundtrack when the input has one
+      "-map",
+      "0:v:0",
+      "-map",
+      "0:a:0?",
+      "-c:a",
+      "aac",
+      "-b:a",
+      "192k",
       outputName,
     ]);
 
+    signal?.throwIfAborted();
+
     // Read output
     const data = await ffmpeg.readFile(outputName);
 
@@ -90,16 +158,17 @@ export async function convertWebmToMp4(
     // Type assertion needed because FFmpeg's Uint8Array has ArrayBufferLike, but Blob accepts it at runtime
     return new Blob([uint8Array as BlobPart], { type: "video/mp4" });
   } catch (error) {
-    // Cleanup on error
-    try {
-      await ffmpeg.deleteFile(inputName);
-      await ffmpeg.deleteFile(outputName);
-    } catch {}
+    if (signal?.aborted) throw signal.reason;
+    // Cleanup on error; either file may not exist
+    for (const name of [inputName, outputName]) {
+      try {
+        await ffmpeg.deleteFile(name);
+      } catch {}
+    }
     throw new Error(`MP4 conversion failed: ${error}`);
   } finally {
-    if (ffmpeg) {
-      ffmpeg.off("progress", progressHandler);
-    }
+    signal?.removeEventListener("abort", onAbort);
+    ffmpeg.off("progress", progressHandler);
   }
 }
 
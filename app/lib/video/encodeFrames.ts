@@ -0,0 +1,320 @@
+import { Muxer as WebmMuxer, ArrayBufferTarget as WebmArrayBufferTarget } from "webm-muxer";
+import { Muxer as Mp4Muxer, ArrayBufferTarget as Mp4ArrayBufferTarget } from "mp4-muxer";
+import type { H264Profile } from "./encoderSettings";
+
+export type EncodeFormat = "webm" | "mp4";
+
+export type EncodeFramesOptions = {
+  canvas: HTMLCanvasElement;
+  fps: number;
+  durationMs: number;
+  format: EncodeFormat;
+  // Target bitrate in bits per second; defaults to the codec's bitrate below
+  bitrate?: number;
+  keyframeIntervalS?: number;
+  // MP4 only; defaults to the best profile the browser supports
+  h264Profile?: H264Profile;
+  // Pre-mixed soundtrack muxed alongside the video
+  audio?: AudioBuffer | null;
+  signal?: AbortSignal;
+  // Draws the frame at `timeMs` onto the canvas; called once per output frame.
+  renderFrame: (timeMs: number) => void;
+  onProgress?: (progress: number) => void;
+};
+
+type CodecCandidate = {
+  codec: string;
+  muxerCodec: string;
+  bitrate: number;
+  profile?: H264Profile;
+};
+
+// WebCodecs codec string paired with the muxer's codec id, best first.
+// H.264 level 5.1 covers frames up to 4096×2304.
+const CODEC_CANDIDATES: Record<EncodeFormat, CodecCandidate[]> = {
+  webm: [
+    { codec: "vp09.00.51.08", muxerCodec: "V_VP9", bitrate: 10_000_000 },
+    { codec: "vp8", muxerCodec: "V_VP8", bitrate: 8_000_000 },
+  ],
+  mp4: [
+    { codec: "avc1.640033", muxerCodec: "avc", bitrate: 12_000_000, profile: "high" },
+    { codec: "avc1.4d0033", muxerCodec: "avc", bitrate: 12_000_000, profile: "main" },
+    { codec: "avc1.42e033", muxerCodec: "avc", bitrate: 12_000_000, profile: "baseline" },
+  ],
+};
+
+type AudioCandidate = { codec: string; muxerCodec: string; bitrate: number };
+
+const AUDIO_CANDIDATES: Record<EncodeFormat, AudioCandidate[]> = {
+  webm: [{ codec: "opus", muxerCodec: "A_OPUS", bitrate: 160_000 }],
+  mp4: [
+    { codec: "mp4a.40.2", muxerCodec: "aac", bitrate: 192_000 },
+    { codec: "opus", muxerCodec: "opus", bitrate: 160_000 },
+  ],
+};
+
+// Audio is fed to the encoder in blocks of this many frames (100ms at 48 kHz).
+const AUDIO_BLOCK_FRAMES = 4800;
+
+// Keyframe every two seconds keeps seeking responsive without bloating the file.
+const DEFAULT_KEYFRAME_INTERVAL_S = 2;
+// Frames allowed in the encoder queue before rendering waits for it to drain.
+const MAX_QUEUE_SIZE = 8;
+
+export function isOfflineEncodingSupported() {
+  return typeof VideoEncoder !== "undefined" && typeof VideoFrame !== "undefined";
+}
+
+async function pickAudioCodec(
+  format: EncodeFormat,
+  sampleRate: number,
+  numberOfChannels: number,
+): Promise<{ candidate: AudioCandidate; config: AudioEncoderConfig } | null> {
+  if (typeof AudioEncoder === "undefined") return null;
+  for (const candidate of AUDIO_CANDIDATES[format]) {
+    const config: AudioEncoderConfig = {
+      codec: candidate.codec,
+      sampleRate,
+      numberOfChannels,
+      bitrate: candidate.bitrate,
+    };
+    try {
+      const support = await AudioEncoder.isConfigSupported(config);
+      if (support.supported) return { candidate, config };
+    } catch {
+      // Unknown codec string in this browser; try the next one
+    }
+  }
+  return null;
+}
+
+async function pickCodec(
+  format: EncodeFormat,
+  width: number,
+  height: number,
+  fps: number,
+  opts: { bitrate?: number; h264Profile?: H264Profile } = {},
+): Promise<{ candidate: CodecCandidate; config: VideoEncoderConfig } | null> {
+  const candidates = CODEC_CANDIDATES[format].filter(
+    (c) => !opts.h264Profile || !c.profile || c.profile === opts.h264Profile,
+  );
+  for (const candidate of candidates) {
+    const config: VideoEncoderConfig = {
+      codec: candidate.codec,
+      width,
+      height,
+      bitrate: opts.bitrate ?? candidate.bitrate,
+      framerate: fps,
+      ...(format === "mp4" ? { avc: { format: "avc" as const } } : {}),
+    };
+    try {
+      const support = await VideoEncoder.isConfigSupported(config);
+      if (support.supported) return { candidate, config };
+    } catch {
+      // Malformed or unknown codec string in this browser; try the next one
+    }
+  }
+  return null;
+}
+
+/**
+ * Whether `format` can be encoded directly with WebCodecs at this size.
+ * When MP4 is not available the caller can encode WebM and convert it.
+ */
+export async function canEncodeFormat(
+  format: EncodeFormat,
+  width: number,
+  height: number,
+  fps: number,
+  h264Profile?: H264Profile,
+  audio?: { sampleRate: number; numberOfChannels: number },
+) {
+  if (!isOfflineEncodingSupported()) return false;
+  if (audio && !(await pickAudioCodec(format, audio.sampleRate, audio.numberOfChannels)))
+    return false;
+  return (await pickCodec(format, width, height, fps, { h264Profile })) !== null;
+}
+
+function createMuxer(
+  format: EncodeFormat,
+  candidate: CodecCandidate,
+  opts: EncodeFramesOptions,
+  audio: { candidate: AudioCandidate; config: AudioEncoderConfig } | null,
+) {
+  const video = {
+    width: opts.canvas.width,
+    height: opts.canvas.height,
+    frameRate: opts.fps,
+  };
+  const audioTrack = audio && {
+    sampleRate: audio.config.sampleRate,
+    numberOfChannels: audio.config.numberOfChannels,
+  };
+  if (format === "webm") {
+    const target = new WebmArrayBufferTarget();
+    const muxer = new WebmMuxer({
+      target,
+      video: { ...video, codec: candidate.muxerCodec },
+      ...(audio ? { audio: { ...audioTrack!, codec: audio.candidate.muxerCodec } } : {}),
+      firstTimestampBehavior: "offset",
+    });
+    return {
+      addChunk: (chunk: EncodedVideoChunk, meta?: EncodedVideoChunkMetadata) =>
+        muxer.addVideoChunk(chunk, meta),
+      addAudioChunk: (chunk: EncodedAudioChunk, meta?: EncodedAudioChunkMetadata) =>
+        muxer.addAudioChunk(chunk, meta),
+      finalize: () => {
+        muxer.finalize();
+        return new Blob([target.buffer], { type: "video/webm" });
+      },
+    };
+  }
+  const target = new Mp4ArrayBufferTarget();
+  const muxer = new Mp4Muxer({
+    target,
+    video: { ...video, codec: "avc" },
+    ...(audio
+      ? { audio: { ...audioTrack!, codec: audio.candidate.muxerCodec as "aac" | "opus" } }
+      : {}),
+    fastStart: "in-memory",
+    firstTimestampBehavior: "offset",
+  });
+  return {
+    addChunk: (chunk: EncodedVideoChunk, meta?: EncodedVideoChunkMetadata) =>
+      muxer.addVideoChunk(chunk, meta),
+    addAudioChunk: (chunk: EncodedAudioChunk, meta?: EncodedAudioChunkMetadata) =>
+      muxer.addAudioChunk(chunk, meta),
+    finalize: () => {
+      muxer.finalize();
+      return new Blob([target.buffer], { type: "video/mp4" });
+    },
+  };
+}
+
+function nextTask() {
+  return new Promise<void>((resolve) => setTimeout(resolve, 0));
+}
+
+async function encodeAudio(
+  buffer: AudioBuffer,
+  config: AudioEncoderConfig,
+  addChunk: (chunk: EncodedAudioChunk, meta?: EncodedAudioChunkMetadata) => void,
+  signal?: AbortSignal,
+) {
+  let encodeError: Error | null = null;
+  const encoder = new AudioEncoder({
+    output: addChunk,
+    error: (e) => {
+      encodeError = e instanceof Error ? e : new Error(String(e));
+    },
+  });
+  encoder.configure(config);
+
+  try {
+    const channels = buffer.numberOfChannels;
+    for (let offset = 0; offset < buffer.length; offset += AUDIO_BLOCK_FRAMES) {
+      if (encodeError) throw encodeError;
+      signal?.throwIfAborted();
+      const frames = Math.min(AUDIO_BLOCK_FRAMES, buffer.length - offset);
+      // f32-planar: each channel's samples one after another
+      const planar = new Float32Array(frames * channels);
+      for (let c = 0; c < channels; c++) {
+        planar.set(buffer.getChannelData(c).subarray(offset, offset + frames), c * frames);
+      }
+      const data = new AudioData({
+        format: "f32-planar",
+        sampleRate: buffer.sampleRate,
+        numberOfFrames: frames,
+        numberOfChannels: channels,
+        timestamp: Math.round((offset * 1_000_000) / buffer.sampleRate),
+        data: planar,
+      });
+      encoder.encode(data);
+      data.close();
+    }
+    await encoder.flush();
+    if (encodeError) throw encodeError;
+  } finally {
+    if (encoder.state !== "closed") encoder.close();
+  }
+}
+
+/**
+ * Renders the animation frame by frame and encodes it with WebCodecs.
+ * Frame `i` shows `renderFrame(i * 1000 / fps)` and is stamped with that exact
+ * time, so output is frame-exact and not tied to wall-clock playback.
+ */
+export async function encodeCanvasFrames(opts: EncodeFramesOptions): Promise<Blob> {
+  if (!isOfflineEncodingSupported()) {
+    throw new Error("This browser does not support WebCodecs video encoding");
+  }
+
+  const { canvas, fps, durationMs, format } = opts;
+  const picked = await pickCodec(format, canvas.width, canvas.height, fps, opts);
+  if (!picked) {
+    throw new Error(
+      `No ${format.toUpperCase()} encoder available for ${canvas.width}×${canvas.height}`,
+    );
+  }
+
+  const audio = opts.audio
+    ? await pickAudioCodec(format, opts.audio.sampleRate, opts.audio.numberOfChannels)
+    : null;
+  if (opts.audio && !audio) {
+    throw new Error(`This browser cannot encode audio for ${format.toUpperCase()}`);
+  }
+
+  const muxer = createMuxer(format, picked.candidate, opts, audio);
+  // The muxer interleaves queued audio with video by timestamp
+  if (opts.audio && audio) {
+    await encodeAudio(opts.audio, audio.config, muxer.addAudioChunk, opts.signal);
+  }
+  let encodeError: Error | null = null;
+  const encoder = new VideoEncoder({
+    output: (chunk, meta) => muxer.addChunk(chunk, meta),
+    error: (e) => {
+      encodeError = e instanceof Error ? e : new Error(String(e));
+    },
+  });
+  encoder.configure(picked.config);
+
+  // Include a frame at the very end so the last resting state is shown.
+  const frameCount = Math.ceil((durationMs * fps) / 1000) + 1;
+  const keyframeEvery = Math.max(
+    1,
+    Math.round(fps * (opts.keyframeIntervalS ?? DEFAULT_KEYFRAME_INTERVAL_S)),
+  );
+  const frameDurationUs = Math.round(1_000_000 / fps);
+
+  try {
+    for (let i = 0; i < frameCount; i++) {
+      if (encodeError) throw encodeError;
+      opts.signal?.throwIfAborted();
+
+      opts.renderFrame(Math.min(durationMs, (i * 1000) / fps));
+      const frame = new VideoFrame(canvas, {
+        timestamp: Math.round((i * 1_000_000) / fps),
+        duration: frameDurationUs,
+      });
+      encoder.encode(frame, { keyFrame: i % keyframeEvery === 0 });
+      frame.close();
+
+      // Backpressure: let the encoder catch up, and yield so the UI can repaint
+      while (encoder.encodeQueueSize > MAX_QUEUE_SIZE) {
+        opts.signal?.throwIfAborted();
+        await nextTask();
+      }
+      if (i % 4 === 0) {
+        opts.onProgress?.(i / frameCount);
+        await nextTask();
+      }
+    }
+
+    await encoder.flush();
+    if (encodeError) throw encodeError;
+    opts.onProgress?.(1);
+    return muxer.finalize();
+  } finally {
+    if (encoder.state !== "closed") encoder.close();
+  }
+}
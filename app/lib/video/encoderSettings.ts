@@ -0,0 +1,88 @@
+export const X264_PRESETS = [
+  "ultrafast",
+  "superfast",
+  "veryfast",
+  "faster",
+  "fast",
+  "medium",
+  "slow",
+  "slower",
+  "veryslow",
+] as const;
+
+export type X264Preset = (typeof X264_PRESETS)[number];
+
+// Baseline/Main play on old devices; High compresses best.
+export type H264Profile = "baseline" | "main" | "high";
+
+// 4:4:4 keeps colored text crisp but many players (and browsers) cannot decode it.
+export type PixelFormat = "yuv420p" | "yuv444p";
+
+export type EncoderSettings = {
+  // MP4: constant quality (CRF, via FFmpeg) or a target bitrate
+  rateControl: "crf" | "bitrate";
+  crf: number;
+  mp4BitrateKbps: number;
+  preset: X264Preset;
+  profile: H264Profile;
+  pixelFormat: PixelFormat;
+  webmBitrateKbps: number;
+  keyframeIntervalS: number;
+};
+
+// Matches the previous hard-coded FFmpeg arguments and VP9 bitrate.
+export const DEFAULT_ENCODER_SETTINGS: EncoderSettings = {
+  rateControl: "crf",
+  crf: 18,
+  mp4BitrateKbps: 8000,
+  preset: "medium",
+  profile: "high",
+  pixelFormat: "yuv420p",
+  webmBitrateKbps: 10000,
+  keyframeIntervalS: 2,
+};
+
+// WebM that is converted to MP4 afterwards is only an intermediate, so it is
+// encoded well above any final bitrate to avoid compounding losses.
+export const INTERMEDIATE_WEBM_BITRATE = 25_000_000;
+
+/**
+ * CRF, x264 presets and 4:4:4 output are only available through FFmpeg;
+ * otherwise MP4 can be encoded directly with WebCodecs.
+ */
+export function mp4NeedsFFmpeg(settings: EncoderSettings) {
+  return settings.rateControl === "crf" || settings.pixelFormat === "yuv444p";
+}
+
+/**
+ * Rough output size in bytes. Bitrate modes are exact up to container
+ * overhead; CRF assumes ~0.02 bits per pixel per frame at CRF 18 (typical for
+ * mostly static code on a flat background), halving every 6 CRF steps.
+ */
+export function estimateFileSize(opts: {
+  format: "webm" | "mp4";
+  settings: EncoderSettings;
+  width: number;
+  height: number;
+  fps: number;
+  durationMs: number;
+}): number {
+  const { settings } = opts;
+  const seconds = opts.durationMs / 1000;
+  let bitsPerSecond: number;
+  if (opts.format === "webm") {
+    bitsPerSecond = settings.webmBitrateKbps * 1000;
+  } else if (settings.rateControl === "bitrate") {
+    bitsPerSecond = settings.mp4BitrateKbps * 1000;
+  } else {
+    const bitsPerPixel = 0.02 * Math.pow(2, (18 - settings.crf) / 6);
+    const chroma = settings.pixelFormat === "yuv444p" ? 2 : 1;
+    bitsPerSecond = opts.width * opts.height * opts.fps * bitsPerPixel * chroma;
+  }
+  return (bitsPerSecond * seconds) / 8;
+}
+
+export function formatFileSize(bytes: number) {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
@@ -0,0 +1,15 @@
+export type ExportFormat = "webm" | "mp4" | "gif" | "apng" | "png";
+
+export const EXPORT_FORMATS: { id: ExportFormat; label: string; extension: string }[] = [
+  { id: "webm", label: "WebM", extension: "webm" },
+  { id: "mp4", label: "MP4", extension: "mp4" },
+  { id: "gif", label: "GIF", extension: "gif" },
+  // APNG files use the plain .png extension so every viewer recognizes them
+  { id: "apng", label: "APNG", extension: "png" },
+  // PNG stills are bundled into a single archive
+  { id: "png", label: "PNG", extension: "zip" },
+];
+
+export function isAnimatedImageFormat(format: ExportFormat): format is "gif" | "apng" {
+  return format === "gif" || format === "apng";
+}
@@ -0,0 +1,334 @@
+/**
+ * Minimal animated GIF encoder: per-frame median-cut palettes, optional
+ * Floyd–Steinberg dithering and LZW compression. Frames are RGBA pixels as
+ * returned by `getImageData`.
+ */
+
+export type QuantizedFrame = {
+  // RGB triples, at most 256 entries
+  palette: Uint8Array;
+  indices: Uint8Array;
+};
+
+// Colors are histogrammed at 5 bits per channel before the median cut.
+const BIN_BITS = 5;
+const BIN_COUNT = 1 << (BIN_BITS * 3);
+
+function binKey(r: number, g: number, b: number) {
+  return ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+}
+
+type Box = { keys: number[]; count: number; range: number; axis: number };
+
+function makeBox(keys: number[], counts: Uint32Array): Box {
+  const min = [31, 31, 31];
+  const max = [0, 0, 0];
+  let count = 0;
+  for (const key of keys) {
+    const c = [(key >> 10) & 31, (key >> 5) & 31, key & 31];
+    for (let a = 0; a < 3; a++) {
+      if (c[a]! < min[a]!) min[a] = c[a]!;
+      if (c[a]! > max[a]!) max[a] = c[a]!;
+    }
+    count += counts[key]!;
+  }
+  let axis = 0;
+  for (let a = 1; a < 3; a++) if (max[a]! - min[a]! > max[axis]! - min[axis]!) axis = a;
+  return { keys, count, range: max[axis]! - min[axis]!, axis };
+}
+
+function splitBox(box: Box, counts: Uint32Array): [Box, Box] {
+  const shift = 10 - box.axis * 5;
+  const sorted = [...box.keys].sort((a, b) => ((a >> shift) & 31) - ((b >> shift) & 31));
+  // Split at the pixel-weighted median, keeping at least one bin per side
+  let acc = 0;
+  let at = 1;
+  for (let i = 0; i < sorted.length - 1; i++) {
+    acc += counts[sorted[i]!]!;
+    at = i + 1;
+    if (acc * 2 >= box.count) break;
+  }
+  return [makeBox(sorted.slice(0, at), counts), makeBox(sorted.slice(at), counts)];
+}
+
+function nearestIndex(palette: Uint8Array, size: number, r: number, g: number, b: number) {
+  let best = 0;
+  let bestDist = Infinity;
+  for (let i = 0; i < size; i++) {
+    const dr = palette[i * 3]! - r;
+    const dg = palette[i * 3 + 1]! - g;
+    const db = palette[i * 3 + 2]! - b;
+    const d = dr * dr + dg * dg + db * db;
+    if (d < bestDist) {
+      bestDist = d;
+      best = i;
+    }
+  }
+  return best;
+}
+
+/**
+ * Reduces an RGBA frame to at most `maxColors` colors. Palette entries are
+ * the average of the pixels they replace, so flat colors stay exact.
+ */
+export function quantizeFrame(
+  rgba: Uint8ClampedArray,
+  width: number,
+  height: number,
+  opts: { dither: boolean; maxColors?: number },
+): QuantizedFrame {
+  const maxColors = opts.maxColors ?? 256;
+  const pixelCount = width * height;
+
+  const counts = new Uint32Array(BIN_COUNT);
+  const sums = new Float64Array(BIN_COUNT * 3);
+  for (let p = 0; p < pixelCount; p++) {
+    const r = rgba[p * 4]!;
+    const g = rgba[p * 4 + 1]!;
+    const b = rgba[p * 4 + 2]!;
+    const key = binKey(r, g, b);
+    counts[key]!++;
+    sums[key * 3] += r;
+    sums[key * 3 + 1] += g;
+    sums[key * 3 + 2] += b;
+  }
+
+  const used: number[] = [];
+  for (let key = 0; key < BIN_COUNT; key++) if (counts[key]! > 0) used.push(key);
+
+  const boxes = [makeBox(used, counts)];
+  while (boxes.length < maxColors) {
+    // Split where many pixels share a wide color range
+    let pick = -1;
+    let bestScore = 0;
+    for (let i = 0; i < boxes.length; i++) {
+      const box = boxes[i]!;
+      if (box.keys.length < 2) continue;
+      const score = box.count * (box.range + 1);
+      if (score > bestScore) {
+        bestScore = score;
+        pick = i;
+      }
+    }
+    if (pick < 0) break;
+    boxes.splice(pick, 1, ...splitBox(boxes[pick]!, counts));
+  }
+
+  const palette = new Uint8Array(boxes.length * 3);
+  const lut = new Int16Array(BIN_COUNT).fill(-1);
+  boxes.forEach((box, i) => {
+    const total = [0, 0, 0];
+    for (const key of box.keys) {
+      total[0] += sums[key * 3]!;
+      total[1] += sums[key * 3 + 1]!;
+      total[2] += sums[key * 3 + 2]!;
+      lut[key] = i;
+    }
+    for (let c = 0; c < 3; c++) palette[i * 3 + c] = Math.round(total[c]! / Math.max(1, box.count));
+  });
+
+  const indices = new Uint8Array(pixelCount);
+  if (!opts.dither) {
+    for (let p = 0; p < pixelCount; p++) {
+      indices[p] = lut[binKey(rgba[p * 4]!, rgba[p * 4 + 1]!, rgba[p * 4 + 2]!)]!;
+    }
+    return { palette, indices };
+  }
+
+  // Floyd–Steinberg: diffused colors can land in bins no box owns, so those are
+  // resolved against the palette lazily in a separate table.
+  const nearest = new Int16Array(BIN_COUNT).fill(-1);
+  const lookup = (r: number, g: number, b: number) => {
+    const key = binKey(r, g, b);
+    let idx = nearest[key]!;
+    if (idx < 0) {
+      idx = nearestIndex(palette, boxes.length, (r & 0xf8) | 4, (g & 0xf8) | 4, (b & 0xf8) | 4);
+      nearest[key] = idx;
+    }
+    return idx;
+  };
+
+  let errCur = new Float32Array((width + 2) * 3);
+  let errNext = new Float32Array((width + 2) * 3);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = y * width + x;
+      const e = (x + 1) * 3;
+      const r = Math.max(0, Math.min(255, Math.round(rgba[p * 4]! + errCur[e]!)));
+      const g = Math.max(0, Math.min(255, Math.round(rgba[p * 4 + 1]! + errCur[e + 1]!)));
+      const b = Math.max(0, Math.min(255, Math.round(rgba[p * 4 + 2]! + errCur[e + 2]!)));
+
+      // Exact palette colors (backgrounds, solid text) never carry error
+      const exact = lut[binKey(r, g, b)]!;
+      const idx =
+        exact >= 0 &&
+        palette[exact * 3] === r &&
+        palette[exact * 3 + 1] === g &&
+        palette[exact * 3 + 2] === b
+          ? exact
+          : lookup(r, g, b);
+      indices[p] = idx;
+
+      const diff = [r - palette[idx * 3]!, g - palette[idx * 3 + 1]!, b - palette[idx * 3 + 2]!];
+      for (let c = 0; c < 3; c++) {
+        const d = diff[c]!;
+        if (d === 0) continue;
+        errCur[e + 3 + c] += (d * 7) / 16;
+        errNext[e - 3 + c] += (d * 3) / 16;
+        errNext[e + c] += (d * 5) / 16;
+        errNext[e + 3 + c] += d / 16;
+      }
+    }
+    [errCur, errNext] = [errNext, errCur];
+    errNext.fill(0);
+  }
+
+  return { palette, indices };
+}
+
+function createByteSink() {
+  let buf = new Uint8Array(1 << 16);
+  let len = 0;
+  const ensure = (n: number) => {
+    if (len + n <= buf.length) return;
+    let size = buf.length * 2;
+    while (size < len + n) size *= 2;
+    const next = new Uint8Array(size);
+    next.set(buf.subarray(0, len));
+    buf = next;
+  };
+  return {
+    byte(b: number) {
+      ensure(1);
+      buf[len++] = b;
+    },
+    u16(v: number) {
+      ensure(2);
+      buf[len++] = v & 0xff;
+      buf[len++] = (v >> 8) & 0xff;
+    },
+    bytes(data: ArrayLike<number>) {
+      ensure(data.length);
+      buf.set(data, len);
+      len += data.length;
+    },
+    result() {
+      return buf.slice(0, len);
+    },
+  };
+}
+
+// GIF LZW with variable code sizes, emitted in 255-byte sub-blocks.
+function writeLzw(
+  sink: ReturnType<typeof createByteSink>,
+  indices: Uint8Array,
+  minCodeSize: number,
+) {
+  sink.byte(minCodeSize);
+
+  const block = new Uint8Array(255);
+  let blockLen = 0;
+  let cur = 0;
+  let curBits = 0;
+  const emit = (code: number, size: number) => {
+    cur |= code << curBits;
+    curBits += size;
+    while (curBits >= 8) {
+      block[blockLen++] = cur & 0xff;
+      cur >>>= 8;
+      curBits -= 8;
+      if (blockLen === 255) {
+        sink.byte(255);
+        sink.bytes(block);
+        blockLen = 0;
+      }
+    }
+  };
+
+  const clearCode = 1 << minCodeSize;
+  const eoiCode = clearCode + 1;
+  let codeSize = minCodeSize + 1;
+  let nextCode = eoiCode + 1;
+  const table = new Map<number, number>();
+
+  emit(clearCode, codeSize);
+  let prefix = indices[0] ?? 0;
+  for (let i = 1; i < indices.length; i++) {
+    const k = indices[i]!;
+    const key = (prefix << 8) | k;
+    const code = table.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+    emit(prefix, codeSize);
+    if (nextCode === 4096) {
+      emit(clearCode, codeSize);
+      table.clear();
+      codeSize = minCodeSize + 1;
+      nextCode = eoiCode + 1;
+    } else {
+      if (nextCode >= 1 << codeSize) codeSize++;
+      table.set(key, nextCode++);
+    }
+    prefix = k;
+  }
+  emit(prefix, codeSize);
+  emit(eoiCode, codeSize);
+  if (curBits > 0) emit(0, 8 - curBits);
+
+  if (blockLen > 0) {
+    sink.byte(blockLen);
+    sink.bytes(block.subarray(0, blockLen));
+  }
+  sink.byte(0);
+}
+
+/**
+ * Streams frames into a looping GIF. Delays are in centiseconds, the unit
+ * the format stores.
+ */
+export function createGifEncoder(width: number, height: number) {
+  const sink = createByteSink();
+  sink.bytes([0x47, 0x49, 0x46, 0x38, 0x39, 0x61]); // "GIF89a"
+  sink.u16(width);
+  sink.u16(height);
+  sink.bytes([0, 0, 0]); // No global color table; every frame brings its own
+
+  // NETSCAPE2.0 application extension: loop forever
+  sink.bytes([0x21, 0xff, 0x0b]);
+  sink.bytes([0x4e, 0x45, 0x54, 0x53, 0x43, 0x41, 0x50, 0x45, 0x32, 0x2e, 0x30]);
+  sink.bytes([0x03, 0x01]);
+  sink.u16(0);
+  sink.byte(0);
+
+  return {
+    addFrame(frame: QuantizedFrame, delayCs: number) {
+      const colors = frame.palette.length / 3;
+      let bits = 1;
+      while (1 << bits < colors) bits++;
+
+      // Graphic control extension: no transparency, leave the frame in place
+      sink.bytes([0x21, 0xf9, 0x04, 0x04]);
+      sink.u16(Math.max(1, Math.min(0xffff, Math.round(delayCs))));
+      sink.bytes([0, 0]);
+
+      // Image descriptor with a local color table padded to a power of two
+      sink.byte(0x2c);
+      sink.u16(0);
+      sink.u16(0);
+      sink.u16(width);
+      sink.u16(height);
+      sink.byte(0x80 | (bits - 1));
+      const table = new Uint8Array((1 << bits) * 3);
+      table.set(frame.palette);
+      sink.bytes(table);
+
+      writeLzw(sink, frame.indices, Math.max(2, bits));
+    },
+    finish() {
+      sink.byte(0x3b);
+      return new Blob([sink.result()], { type: "image/gif" });
+    },
+  };
+}
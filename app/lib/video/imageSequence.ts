@@ -0,0 +1,83 @@
+import { MAX_ZIP_ENTRIES, createZipWriter } from "./zip";
+
+/**
+ * - "frames": every frame of the animation, for video editors.
+ * - "steps": the resting frame of each step (and focus state), for slides.
+ */
+export type ImageSequenceMode = "frames" | "steps";
+
+export type SequenceStop = { stepIndex: number; focusIndex: number };
+
+function canvasToPng(canvas: HTMLCanvasElement) {
+  return new Promise<Uint8Array>((resolve, reject) => {
+    canvas.toBlob((blob) => {
+      if (!blob) {
+        reject(new Error("Failed to encode PNG"));
+        return;
+      }
+      blob.arrayBuffer().then((buf) => resolve(new Uint8Array(buf)), reject);
+    }, "image/png");
+  });
+}
+
+function pad(n: number, width: number) {
+  return String(n).padStart(width, "0");
+}
+
+/**
+ * Renders PNG stills into a single ZIP. File names carry 1-based step (and
+ * frame) indices zero-padded so they sort correctly on import:
+ * `step-02.png`, `step-02-focus-3.png`, `frame-00042-step-02.png`.
+ */
+export async function encodeImageSequence(opts: {
+  canvas: HTMLCanvasElement;
+  mode: ImageSequenceMode;
+  fps: number;
+  durationMs: number;
+  stops: SequenceStop[];
+  // Index into `stops` of the stop shown (or being entered) at `timeMs`
+  stopAt: (timeMs: number) => number;
+  renderFrame: (timeMs: number) => void;
+  renderStop: (stop: number) => void;
+  onProgress?: (progress: number) => void;
+  signal?: AbortSignal;
+}): Promise<Blob> {
+  const { canvas, stops } = opts;
+  const zip = createZipWriter();
+  const stepCount = stops.reduce((n, s) => Math.max(n, s.stepIndex + 1), 0);
+  const stepWidth = Math.max(2, String(stepCount).length);
+  const stepName = (k: number) => `step-${pad(stops[k]!.stepIndex + 1, stepWidth)}`;
+
+  if (opts.mode === "steps") {
+    for (let k = 0; k < stops.length; k++) {
+      opts.signal?.throwIfAborted();
+      const stop = stops[k]!;
+      const hasFocusStates = stops.some((s) => s.stepIndex === stop.stepIndex && s.focusIndex > 0);
+      opts.renderStop(k);
+      const name = hasFocusStates
+        ? `${stepName(k)}-focus-${stop.focusIndex + 1}.png`
+        : `${stepName(k)}.png`;
+      zip.addFile(name, await canvasToPng(canvas));
+      opts.onProgress?.((k + 1) / stops.length);
+    }
+    return zip.finish();
+  }
+
+  const frameCount = Math.ceil((opts.durationMs * opts.fps) / 1000) + 1;
+  // Fail before rendering anything rather than partway through
+  if (frameCount > MAX_ZIP_ENTRIES) {
+    throw new Error(
+      `${frameCount} frames do not fit in one ZIP (at most ${MAX_ZIP_ENTRIES}); lower the frame rate or export steps`,
+    );
+  }
+  const frameWidth = Math.max(5, String(frameCount).length);
+  for (let i = 0; i < frameCount; i++) {
+    opts.signal?.throwIfAborted();
+    const timeMs = Math.min(opts.durationMs, (i * 1000) / opts.fps);
+    opts.renderFrame(timeMs);
+    const name = `frame-${pad(i + 1, frameWidth)}-${stepName(opts.stopAt(timeMs))}.png`;
+    zip.addFile(name, await canvasToPng(canvas));
+    opts.onProgress?.((i + 1) / frameCount);
+  }
+  return zip.finish();
+}
@@ -0,0 +1,65 @@
+import type { Narration } from "../magicMove/types";
+import { readAudioDuration } from "./soundtrack";
+
+export type NarrationRecording = {
+  // Stops recording and resolves with the clip
+  stop: () => Promise<Narration>;
+  // Stops recording and discards it
+  cancel: () => void;
+};
+
+function pickAudioMimeType() {
+  const prefs = ["audio/webm;codecs=opus", "audio/ogg;codecs=opus", "audio/mp4", "audio/webm"];
+  return prefs.find((t) => MediaRecorder.isTypeSupported(t));
+}
+
+/**
+ * Starts recording the microphone. Throws with a readable message when the
+ * browser has no recorder or microphone access is denied.
+ */
+export async function startNarrationRecording(): Promise<NarrationRecording> {
+  if (typeof MediaRecorder === "undefined" || !navigator.mediaDevices?.getUserMedia) {
+    throw new Error("This browser cannot record audio");
+  }
+
+  let stream: MediaStream;
+  try {
+    stream = await navigator.mediaDevices.getUserMedia({
+      audio: { echoCancellation: true, noiseSuppression: true },
+    });
+  } catch {
+    throw new Error("Microphone access was denied");
+  }
+
+  const mimeType = pickAudioMimeType();
+  const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+  const chunks: BlobPart[] = [];
+  recorder.ondataavailable = (e) => {
+    if (e.data && e.data.size > 0) chunks.push(e.data);
+  };
+
+  const stopped = new Promise<Blob>((resolve, reject) => {
+    recorder.onerror = () => reject(new Error("Recording failed"));
+    recorder.onstop = () => {
+      // Release the microphone (and the browser's recording indicator)
+      stream.getTracks().forEach((track) => track.stop());
+      resolve(new Blob(chunks, { type: recorder.mimeType || "audio/webm" }));
+    };
+  });
+
+  recorder.start(250);
+
+  return {
+    stop: async () => {
+      if (recorder.state !== "inactive") recorder.stop();
+      const audio = await stopped;
+      // Recorder timestamps are approximate; the decoded length is what gets mixed
+      const durationMs = Math.round((await readAudioDuration(audio)) * 1000);
+      return { audio, durationMs };
+    },
+    cancel: () => {
+      if (recorder.state !== "inactive") recorder.stop();
+      stopped.catch(() => {});
+    },
+  };
+}
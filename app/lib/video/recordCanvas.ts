@@ -2,6 +2,12 @@ export type RecordCanvasOptions = {
   canvas: HTMLCanvasElement;
   fps: number;
   mimeTypePreference?: string[];
+  // Overrides the per-codec default bitrate (bits per second)
+  bitrate?: number;
+  // Soundtrack played into the recording in real time
+  audio?: AudioBuffer | null;
+  // Stops the recorder early; the promise then rejects with the abort reason
+  signal?: AbortSignal;
   onProgress?: (elapsedMs: number, totalMs: number) => void;
 };
 
@@ -21,13 +27,30 @@ function pickMimeType(
 }
 
 export async function recordCanvasToWebm(opts: RecordCanvasOptions & { durationMs: number }) {
+  opts.signal?.throwIfAborted();
   const stream = opts.canvas.captureStream(opts.fps);
-  const codecInfo = pickMimeType(opts.mimeTypePreference);
+  const audioCtx = opts.audio ? new AudioContext({ sampleRate: opts.audio.sampleRate }) : null;
+  let audioSource: AudioBufferSourceNode | null = null;
+  if (audioCtx && opts.audio) {
+    const destination = audioCtx.createMediaStreamDestination();
+    audioSource = audioCtx.createBufferSource();
+    audioSource.buffer = opts.audio;
+    audioSource.connect(destination);
+    destination.stream.getAudioTracks().forEach((track) => stream.addTrack(track));
+  }
+  const codecInfo = pickMimeType(
+    opts.mimeTypePreference ??
+      (audioCtx
+        ? ["video/webm;codecs=vp9,opus", "video/webm;codecs=vp8,opus", "video/webm"]
+        : undefined),
+  );
 
   const recorderOptions: MediaRecorderOptions | undefined = codecInfo
     ? {
         mimeType: codecInfo.mimeType,
-        ...(codecInfo.bitrate ? { videoBitsPerSecond: codecInfo.bitrate } : {}),
+        ...((opts.bitrate ?? codecInfo.bitrate)
+          ? { videoBitsPerSecond: opts.bitrate ?? codecInfo.bitrate }
+          : {}),
       }
     : undefined;
 
@@ -45,12 +68,14 @@ export async function recordCanvasToWebm(opts: RecordCanvasOptions & { durationM
     recorder.onstop = () => {
       // Stop all tracks to release resources and prevent memory leaks
       stream.getTracks().forEach((track) => track.stop());
+      void audioCtx?.close();
       const blob = new Blob(chunks, { type: recorder.mimeType || "video/webm" });
       resolve(blob);
     };
   });
 
   recorder.start(250);
+  audioSource?.start();
 
   // Stop after duration, but give it a tiny buffer to flush the last chunk.
   const stopAt = startedAt + opts.durationMs;
@@ -58,7 +83,7 @@ export async function recordCanvasToWebm(opts: RecordCanvasOptions & { durationM
     const tick = () => {
       const now = performance.now();
       opts.onProgress?.(Math.min(opts.durationMs, now - startedAt), opts.durationMs);
-      if (now >= stopAt) {
+      if (now >= stopAt || opts.signal?.aborted) {
         recorder.stop();
         resolve();
         return;
@@ -68,5 +93,7 @@ export async function recordCanvasToWebm(opts: RecordCanvasOptions & { durationM
     requestAnimationFrame(tick);
   });
 
-  return await done;
+  const blob = await done;
+  opts.signal?.throwIfAborted();
+  return blob;
 }
@@ -0,0 +1,167 @@
+export type MusicSettings = {
+  file: Blob;
+  name: string;
+  // Length of the decoded file
+  durationS: number;
+  // Part of the file to play, in seconds; playback starts with the video
+  trimStartS: number;
+  trimEndS: number;
+  fadeInS: number;
+  fadeOutS: number;
+  // 0–1
+  volume: number;
+};
+
+export type TransitionSound = "none" | "whoosh" | "click";
+
+export type AudioSettings = {
+  music: MusicSettings | null;
+  // Played at the start of every transition
+  transitionSound: TransitionSound;
+  transitionVolume: number;
+};
+
+export const DEFAULT_AUDIO_SETTINGS: AudioSettings = {
+  music: null,
+  transitionSound: "none",
+  transitionVolume: 0.6,
+};
+
+// Opus only supports 48 kHz; AAC handles it as well.
+export const SOUNDTRACK_SAMPLE_RATE = 48_000;
+export const SOUNDTRACK_CHANNELS = 2;
+export const SOUNDTRACK_FORMAT = {
+  sampleRate: SOUNDTRACK_SAMPLE_RATE,
+  numberOfChannels: SOUNDTRACK_CHANNELS,
+};
+
+export function hasAudio(settings: AudioSettings) {
+  return !!settings.music || settings.transitionSound !== "none";
+}
+
+/**
+ * Decodes an audio file far enough to know its duration; throws with a
+ * readable message when the browser cannot decode the format.
+ */
+export async function readAudioDuration(file: Blob): Promise<number> {
+  const ctx = new OfflineAudioContext(1, 1, SOUNDTRACK_SAMPLE_RATE);
+  try {
+    const buffer = await ctx.decodeAudioData(await file.arrayBuffer());
+    return buffer.duration;
+  } catch {
+    throw new Error("This audio file could not be decoded");
+  }
+}
+
+function noiseBuffer(ctx: BaseAudioContext, seconds: number) {
+  const buffer = ctx.createBuffer(1, Math.ceil(seconds * ctx.sampleRate), ctx.sampleRate);
+  const data = buffer.getChannelData(0);
+  // Deterministic noise so repeated exports are identical
+  let seed = 0x2545f491;
+  for (let i = 0; i < data.length; i++) {
+    seed ^= seed << 13;
+    seed ^= seed >>> 17;
+    seed ^= seed << 5;
+    data[i] = ((seed >>> 0) / 0xffffffff) * 2 - 1;
+  }
+  return buffer;
+}
+
+// Band-passed noise sweeping upward with a soft swell: an airy "whoosh".
+function scheduleWhoosh(ctx: BaseAudioContext, at: number, volume: number, noise: AudioBuffer) {
+  const length = 0.45;
+  const source = ctx.createBufferSource();
+  source.buffer = noise;
+  const filter = ctx.createBiquadFilter();
+  filter.type = "bandpass";
+  filter.Q.value = 1.2;
+  filter.frequency.setValueAtTime(400, at);
+  filter.frequency.exponentialRampToValueAtTime(3200, at + length);
+  const gain = ctx.createGain();
+  gain.gain.setValueAtTime(0, at);
+  gain.gain.linearRampToValueAtTime(volume, at + length * 0.4);
+  gain.gain.linearRampToValueAtTime(0, at + length);
+  source.connect(filter).connect(gain).connect(ctx.destination);
+  source.start(at, 0, length);
+}
+
+// Short decaying sine pip: a UI-style "click".
+function scheduleClick(ctx: BaseAudioContext, at: number, volume: number) {
+  const length = 0.06;
+  const osc = ctx.createOscillator();
+  osc.type = "sine";
+  osc.frequency.setValueAtTime(1800, at);
+  osc.frequency.exponentialRampToValueAtTime(900, at + length);
+  const gain = ctx.createGain();
+  gain.gain.setValueAtTime(volume, at);
+  gain.gain.exponentialRampToValueAtTime(0.001, at + length);
+  osc.connect(gain).connect(ctx.destination);
+  osc.start(at);
+  osc.stop(at + length);
+}
+
+/**
+ * Mixes the soundtrack offline: trimmed music with fades and volume, a
+ * transition sound at each of `transitionStartsMs`, and recorded `clips`
+ * (narration) at full volume. Returns null when there is nothing to play.
+ */
+export async function renderSoundtrack(opts: {
+  settings: AudioSettings;
+  durationMs: number;
+  transitionStartsMs: number[];
+  clips?: { audio: Blob; startMs: number }[];
+}): Promise<AudioBuffer | null> {
+  const { settings } = opts;
+  const clips = opts.clips ?? [];
+  if ((!hasAudio(settings) && clips.length === 0) || opts.durationMs <= 0) return null;
+
+  const durationS = opts.durationMs / 1000;
+  const ctx = new OfflineAudioContext(
+    SOUNDTRACK_CHANNELS,
+    Math.ceil(durationS * SOUNDTRACK_SAMPLE_RATE),
+    SOUNDTRACK_SAMPLE_RATE,
+  );
+
+  const music = settings.music;
+  if (music) {
+    const buffer = await ctx.decodeAudioData(await music.file.arrayBuffer());
+    const start = Math.max(0, Math.min(music.trimStartS, buffer.duration));
+    const end = Math.max(start, Math.min(music.trimEndS, buffer.duration));
+    const playS = Math.min(end - start, durationS);
+    if (playS > 0) {
+      const source = ctx.createBufferSource();
+      source.buffer = buffer;
+      const gain = ctx.createGain();
+      const fadeIn = Math.min(music.fadeInS, playS / 2);
+      const fadeOut = Math.min(music.fadeOutS, playS / 2);
+      gain.gain.setValueAtTime(fadeIn > 0 ? 0 : music.volume, 0);
+      if (fadeIn > 0) gain.gain.linearRampToValueAtTime(music.volume, fadeIn);
+      gain.gain.setValueAtTime(music.volume, playS - fadeOut);
+      if (fadeOut > 0) gain.gain.linearRampToValueAtTime(0, playS);
+      source.connect(gain).connect(ctx.destination);
+      source.start(0, start, playS);
+    }
+  }
+
+  if (settings.transitionSound !== "none") {
+    const noise = noiseBuffer(ctx, 0.5);
+    for (const ms of opts.transitionStartsMs) {
+      const at = ms / 1000;
+      if (at >= durationS) continue;
+      if (settings.transitionSound === "whoosh")
+        scheduleWhoosh(ctx, at, settings.transitionVolume, noise);
+      else scheduleClick(ctx, at, settings.transitionVolume);
+    }
+  }
+
+  for (const clip of clips) {
+    const at = clip.startMs / 1000;
+    if (at >= durationS) continue;
+    const source = ctx.createBufferSource();
+    source.buffer = await ctx.decodeAudioData(await clip.audio.arrayBuffer());
+    source.connect(ctx.destination);
+    source.start(at);
+  }
+
+  return await ctx.startRendering();
+}
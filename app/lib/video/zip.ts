@@ -0,0 +1,85 @@
+import { crc32 } from "./crc32";
+
+// Without ZIP64 records, counts are 16-bit and sizes/offsets 32-bit; the all-ones
+// values are reserved as ZIP64 markers
+export const MAX_ZIP_ENTRIES = 0xfffe;
+const MAX_ZIP_BYTES = 0xfffffffe;
+
+/**
+ * Minimal ZIP writer. Entries are stored uncompressed, which suits already
+ * compressed payloads like PNG files. There is no ZIP64 support, so archives
+ * are limited to `MAX_ZIP_ENTRIES` files and 4 GB.
+ */
+export function createZipWriter() {
+  const parts: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+  let count = 0;
+
+  // MS-DOS date/time of the moment the archive is created
+  const now = new Date();
+  const dosTime = (now.getHours() << 11) | (now.getMinutes() << 5) | (now.getSeconds() >> 1);
+  const dosDate = ((now.getFullYear() - 1980) << 9) | ((now.getMonth() + 1) << 5) | now.getDate();
+
+  return {
+    addFile(name: string, data: Uint8Array) {
+      const nameBytes = new TextEncoder().encode(name);
+      if (count >= MAX_ZIP_ENTRIES) {
+        throw new Error(`A ZIP archive holds at most ${MAX_ZIP_ENTRIES} files`);
+      }
+      if (offset + 30 + nameBytes.length + data.length > MAX_ZIP_BYTES) {
+        throw new Error("The ZIP archive would exceed 4 GB");
+      }
+      const crc = crc32(data);
+
+      const local = new Uint8Array(30 + nameBytes.length);
+      const lv = new DataView(local.buffer);
+      lv.setUint32(0, 0x04034b50, true);
+      lv.setUint16(4, 20, true); // Version needed to extract
+      lv.setUint16(6, 0x0800, true); // UTF-8 file names
+      lv.setUint16(8, 0, true); // Stored
+      lv.setUint16(10, dosTime, true);
+      lv.setUint16(12, dosDate, true);
+      lv.setUint32(14, crc, true);
+      lv.setUint32(18, data.length, true);
+      lv.setUint32(22, data.length, true);
+      lv.setUint16(26, nameBytes.length, true);
+      local.set(nameBytes, 30);
+
+      const entry = new Uint8Array(46 + nameBytes.length);
+      const cv = new DataView(entry.buffer);
+      cv.setUint32(0, 0x02014b50, true);
+      cv.setUint16(4, 20, true); // Version made by
+      cv.setUint16(6, 20, true);
+      cv.setUint16(8, 0x0800, true);
+      cv.setUint16(10, 0, true);
+      cv.setUint16(12, dosTime, true);
+      cv.setUint16(14, dosDate, true);
+      cv.setUint32(16, crc, true);
+      cv.setUint32(20, data.length, true);
+      cv.setUint32(24, data.length, true);
+      cv.setUint16(28, nameBytes.length, true);
+      cv.setUint32(42, offset, true);
+      entry.set(nameBytes, 46);
+
+      parts.push(local, data);
+      central.push(entry);
+      offset += local.length + data.length;
+      count++;
+    },
+    finish() {
+      const centralSize = central.reduce((n, e) => n + e.length, 0);
+      if (offset + centralSize > MAX_ZIP_BYTES) {
+        throw new Error("The ZIP archive would exceed 4 GB");
+      }
+      const end = new Uint8Array(22);
+      const ev = new DataView(end.buffer);
+      ev.setUint32(0, 0x06054b50, true);
+      ev.setUint16(8, count, true);
+      ev.setUint16(10, count, true);
+      ev.setUint32(12, centralSize, true);
+      ev.setUint32(16, offset, true);
+      return new Blob([...parts, ...central, end] as BlobPart[], { type: "application/zip" });
+    },
+  };
+}
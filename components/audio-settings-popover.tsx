@@ -0,0 +1,282 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { Music, Upload, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Separator } from "@/components/ui/separator";
+import { Slider } from "@/components/ui/slider";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Field,
+  FieldDescription,
+  FieldGroup,
+  FieldLabel,
+  FieldLegend,
+  FieldSet,
+} from "@/components/ui/field";
+import {
+  hasAudio,
+  readAudioDuration,
+  type AudioSettings,
+  type MusicSettings,
+  type TransitionSound,
+} from "@/app/lib/video/soundtrack";
+import { cn } from "@/lib/utils";
+
+interface AudioSettingsPopoverProps {
+  settings: AudioSettings;
+  onSettingsChange: (settings: AudioSettings) => void;
+  // Length of the video, to show how much of the music is used
+  totalMs: number;
+}
+
+function SecondsSlider({
+  label,
+  value,
+  max,
+  onChange,
+}: {
+  label: string;
+  value: number;
+  max: number;
+  onChange: (seconds: number) => void;
+}) {
+  return (
+    <Field>
+      <div className="flex justify-between items-center">
+        <FieldLabel className="text-xs">{label}</FieldLabel>
+        <FieldLabel className="text-xs text-muted-foreground font-mono">
+          {value.toFixed(1)}s
+        </FieldLabel>
+      </div>
+      <Slider value={[value]} min={0} max={max} step={0.1} onValueChange={([v]) => onChange(v)} />
+    </Field>
+  );
+}
+
+function PercentSlider({
+  label,
+  value,
+  onChange,
+}: {
+  label: string;
+  value: number;
+  onChange: (value: number) => void;
+}) {
+  return (
+    <Field>
+      <div className="flex justify-between items-center">
+        <FieldLabel className="text-xs">{label}</FieldLabel>
+        <FieldLabel className="text-xs text-muted-foreground font-mono">
+          {Math.round(value * 100)}%
+        </FieldLabel>
+      </div>
+      <Slider value={[value]} min={0} max={1} step={0.05} onValueChange={([v]) => onChange(v)} />
+    </Field>
+  );
+}
+
+export function AudioSettingsPopover({
+  settings,
+  onSettingsChange,
+  totalMs,
+}: AudioSettingsPopoverProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [error, setError] = useState<string | null>(null);
+  const music = settings.music;
+
+  const update = (patch: Partial<AudioSettings>) => onSettingsChange({ ...settings, ...patch });
+  const updateMusic = (patch: Partial<MusicSettings>) => {
+    if (music) update({ music: { ...music, ...patch } });
+  };
+
+  const onFile = async (file: File) => {
+    setError(null);
+    try {
+      const durationS = await readAudioDuration(file);
+      update({
+        music: {
+          file,
+          name: file.name,
+          durationS,
+          trimStartS: 0,
+          trimEndS: durationS,
+          fadeInS: 0.5,
+          fadeOutS: 1,
+          volume: 0.8,
+        },
+      });
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to read audio file");
+    }
+  };
+
+  const trimInput = (id: string, value: number, onChange: (seconds: number) => void) => (
+    <Input
+      id={id}
+      type="number"
+      min={0}
+      max={music?.durationS}
+      step={0.1}
+      value={Number(value.toFixed(1))}
+      onChange={(e) => {
+        const n = Number(e.target.value);
+        if (Number.isFinite(n) && n >= 0) onChange(n);
+      }}
+      className="h-7 !w-20 font-mono text-xs"
+    />
+  );
+
+  const playS = music ? Math.min(music.trimEndS - music.trimStartS, totalMs / 1000) : 0;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className={cn("h-7 w-7", hasAudio(settings) && "text-primary")}
+          title="Audio"
+        >
+          <Music className="w-3.5 h-3.5" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 p-4" side="top" align="end">
+        <FieldSet>
+          <FieldLegend>Audio</FieldLegend>
+
+          <FieldGroup>
+            <Field>
+              <FieldLabel className="text-xs">Background Music</FieldLabel>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="audio/*"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  e.target.value = "";
+                  if (file) void onFile(file);
+                }}
+              />
+              {music ? (
+                <div className="flex items-center gap-1.5">
+                  <span className="flex-1 truncate text-xs font-mono" title={music.name}>
+                    {music.name}
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    title="Replace music"
+                    onClick={() => fileInputRef.current?.click()}
+                  >
+                    <Upload className="w-3.5 h-3.5" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    title="Remove music"
+                    onClick={() => update({ music: null })}
+                  >
+                    <X className="w-3.5 h-3.5" />
+                  </Button>
+                </div>
+              ) : (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="text-xs"
+                  onClick={() => fileInputRef.current?.click()}
+                >
+                  <Upload className="w-3.5 h-3.5" />
+                  Choose Audio File
+                </Button>
+              )}
+              {error && (
+                <FieldDescription className="text-xs text-destructive">{error}</FieldDescription>
+              )}
+            </Field>
+
+            {music && (
+              <>
+                <Field orientation="horizontal">
+                  <FieldLabel htmlFor="music-trim-start" className="text-xs">
+                    Trim
+                  </FieldLabel>
+                  <div className="flex items-center gap-1.5">
+                    {trimInput("music-trim-start", music.trimStartS, (s) =>
+                      updateMusic({ trimStartS: Math.min(s, music.trimEndS) }),
+                    )}
+                    <span className="text-xs text-muted-foreground">to</span>
+                    {trimInput("music-trim-end", music.trimEndS, (s) =>
+                      updateMusic({
+                        trimEndS: Math.max(music.trimStartS, Math.min(s, music.durationS)),
+                      }),
+                    )}
+                  </div>
+                </Field>
+                <FieldDescription className="text-xs">
+                  Plays {playS.toFixed(1)}s of {music.durationS.toFixed(1)}s; music shorter than the
+                  video ends in silence.
+                </FieldDescription>
+                <SecondsSlider
+                  label="Fade In"
+                  value={music.fadeInS}
+                  max={5}
+                  onChange={(fadeInS) => updateMusic({ fadeInS })}
+                />
+                <SecondsSlider
+                  label="Fade Out"
+                  value={music.fadeOutS}
+                  max={5}
+                  onChange={(fadeOutS) => updateMusic({ fadeOutS })}
+                />
+                <PercentSlider
+                  label="Music Volume"
+                  value={music.volume}
+                  onChange={(volume) => updateMusic({ volume })}
+                />
+              </>
+            )}
+
+            <Separator />
+
+            <Field orientation="horizontal">
+              <FieldLabel className="text-xs">Transition Sound</FieldLabel>
+              <Select
+                value={settings.transitionSound}
+                onValueChange={(v) => update({ transitionSound: v as TransitionSound })}
+              >
+                <SelectTrigger size="sm" className="w-32 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent position="popper">
+                  <SelectItem value="none">None</SelectItem>
+                  <SelectItem value="whoosh">Whoosh</SelectItem>
+                  <SelectItem value="click">Click</SelectItem>
+                </SelectContent>
+              </Select>
+            </Field>
+            {settings.transitionSound !== "none" && (
+              <PercentSlider
+                label="Transition Volume"
+                value={settings.transitionVolume}
+                onChange={(transitionVolume) => update({ transitionVolume })}
+              />
+            )}
+          </FieldGroup>
+        </FieldSet>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,141 @@
+"use client";
+
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectSeparator,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { listEasingPresets, type EasingSpec } from "@/app/lib/magicMove/easing";
+import { cn } from "@/lib/utils";
+
+interface EasingPickerProps {
+  value: EasingSpec | undefined;
+  onChange: (value: EasingSpec | undefined) => void;
+  // When set, an extra option clears the value (e.g. "use project easing").
+  defaultLabel?: string;
+  className?: string;
+}
+
+const DEFAULT_OPTION = "__default";
+
+function formatPresetName(name: string) {
+  return name.replace(/([a-z])([A-Z])/g, "$1 $2").replace(/^./, (c) => c.toUpperCase());
+}
+
+function toOption(value: EasingSpec | undefined) {
+  if (!value) return DEFAULT_OPTION;
+  return value.type === "preset" ? value.name : value.type;
+}
+
+function NumberInput({
+  label,
+  value,
+  step,
+  onChange,
+}: {
+  label: string;
+  value: number;
+  step: number;
+  onChange: (value: number) => void;
+}) {
+  return (
+    <div className="flex flex-col gap-1">
+      <Label className="text-[10px] text-muted-foreground">{label}</Label>
+      <Input
+        type="number"
+        value={value}
+        step={step}
+        onChange={(e) => {
+          const v = Number(e.target.value);
+          if (Number.isFinite(v)) onChange(v);
+        }}
+        className="h-7 px-1.5 font-mono text-xs"
+      />
+    </div>
+  );
+}
+
+export function EasingPicker({ value, onChange, defaultLabel, className }: EasingPickerProps) {
+  const onOptionChange = (option: string) => {
+    if (option === DEFAULT_OPTION) onChange(undefined);
+    else if (option === "cubic-bezier")
+      onChange({ type: "cubic-bezier", x1: 0.25, y1: 0.1, x2: 0.25, y2: 1 });
+    else if (option === "spring")
+      onChange({ type: "spring", stiffness: 170, damping: 18, mass: 1 });
+    else onChange({ type: "preset", name: option });
+  };
+
+  return (
+    <div className={cn("flex flex-col gap-2", className)}>
+      <Select value={toOption(value)} onValueChange={onOptionChange}>
+        <SelectTrigger size="sm" className="w-full text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent position="popper">
+          {defaultLabel && (
+            <>
+              <SelectItem value={DEFAULT_OPTION}>{defaultLabel}</SelectItem>
+              <SelectSeparator />
+            </>
+          )}
+          {listEasingPresets().map((name) => (
+            <SelectItem key={name} value={name}>
+              {formatPresetName(name)}
+            </SelectItem>
+          ))}
+          <SelectSeparator />
+          <SelectItem value="cubic-bezier">Cubic Bézier</SelectItem>
+          <SelectItem value="spring">Spring</SelectItem>
+        </SelectContent>
+      </Select>
+
+      {value?.type === "cubic-bezier" && (
+        <div className="grid grid-cols-4 gap-1.5">
+          {(["x1", "y1", "x2", "y2"] as const).map((key) => (
+            <NumberInput
+              key={key}
+              label={key}
+              value={value[key]}
+              step={0.05}
+              onChange={(v) =>
+                onChange({
+                  ...value,
+                  // Control point x values must stay within [0, 1] for a valid curve
+                  [key]: key.startsWith("x") ? Math.max(0, Math.min(1, v)) : v,
+                })
+              }
+            />
+          ))}
+        </div>
+      )}
+
+      {value?.type === "spring" && (
+        <div className="grid grid-cols-3 gap-1.5">
+          <NumberInput
+            label="Stiffness"
+            value={value.stiffness}
+            step={10}
+            onChange={(stiffness) => onChange({ ...value, stiffness: Math.max(1, stiffness) })}
+          />
+          <NumberInput
+            label="Damping"
+            value={value.damping}
+            step={1}
+            onChange={(damping) => onChange({ ...value, damping: Math.max(0, damping) })}
+          />
+          <NumberInput
+            label="Mass"
+            value={value.mass}
+            step={0.1}
+            onChange={(mass) => onChange({ ...value, mass: Math.max(0.1, mass) })}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
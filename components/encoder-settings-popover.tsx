@@ -0,0 +1,260 @@
+"use client";
+
+import { Gauge } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Separator } from "@/components/ui/separator";
+import { Slider } from "@/components/ui/slider";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Field,
+  FieldDescription,
+  FieldGroup,
+  FieldLabel,
+  FieldLegend,
+  FieldSet,
+} from "@/components/ui/field";
+import {
+  X264_PRESETS,
+  estimateFileSize,
+  formatFileSize,
+  mp4NeedsFFmpeg,
+  type EncoderSettings,
+  type H264Profile,
+  type PixelFormat,
+  type X264Preset,
+} from "@/app/lib/video/encoderSettings";
+import type { FrameSize } from "@/app/lib/magicMove/codeLayout";
+import { formatName } from "@/lib/utils";
+
+interface EncoderSettingsPopoverProps {
+  format: "webm" | "mp4";
+  settings: EncoderSettings;
+  onSettingsChange: (settings: EncoderSettings) => void;
+  // Used for the file size estimate
+  exportSize: FrameSize;
+  fps: number;
+  totalMs: number;
+}
+
+function BitrateInput({
+  id,
+  value,
+  onChange,
+}: {
+  id: string;
+  value: number;
+  onChange: (kbps: number) => void;
+}) {
+  return (
+    <div className="flex items-center gap-1.5">
+      <Input
+        id={id}
+        type="number"
+        min={100}
+        max={100000}
+        step={100}
+        value={value}
+        onChange={(e) => {
+          const n = Math.round(Number(e.target.value));
+          if (Number.isFinite(n) && n > 0) onChange(Math.min(100000, n));
+        }}
+        className="h-7 !w-24 font-mono text-xs"
+      />
+      <span className="text-xs text-muted-foreground">kbps</span>
+    </div>
+  );
+}
+
+export function EncoderSettingsPopover({
+  format,
+  settings,
+  onSettingsChange,
+  exportSize,
+  fps,
+  totalMs,
+}: EncoderSettingsPopoverProps) {
+  const update = (patch: Partial<EncoderSettings>) => onSettingsChange({ ...settings, ...patch });
+  const estimate = estimateFileSize({
+    format,
+    settings,
+    width: exportSize.width,
+    height: exportSize.height,
+    fps,
+    durationMs: totalMs,
+  });
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="h-7 w-7" title="Quality settings">
+          <Gauge className="w-3.5 h-3.5" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 p-4" side="top" align="end">
+        <FieldSet>
+          <FieldLegend>{format === "mp4" ? "MP4 (H.264)" : "WebM (VP9)"} Quality</FieldLegend>
+          <FieldDescription>
+            Estimated size: <span className="font-mono">≈ {formatFileSize(estimate)}</span>
+          </FieldDescription>
+
+          <Separator />
+
+          <FieldGroup>
+            {format === "mp4" ? (
+              <>
+                <Field orientation="horizontal">
+                  <FieldLabel className="text-xs">Rate Control</FieldLabel>
+                  <Tabs
+                    value={settings.rateControl}
+                    onValueChange={(v) =>
+                      update({ rateControl: v as EncoderSettings["rateControl"] })
+                    }
+                  >
+                    <TabsList>
+                      <TabsTrigger value="crf" className="text-xs">
+                        CRF
+                      </TabsTrigger>
+                      <TabsTrigger value="bitrate" className="text-xs">
+                        Bitrate
+                      </TabsTrigger>
+                    </TabsList>
+                  </Tabs>
+                </Field>
+                {settings.rateControl === "crf" ? (
+                  <Field>
+                    <div className="flex justify-between items-center">
+                      <FieldLabel className="text-xs">CRF</FieldLabel>
+                      <FieldLabel className="text-xs text-muted-foreground font-mono">
+                        {settings.crf}
+                      </FieldLabel>
+                    </div>
+                    <Slider
+                      value={[settings.crf]}
+                      min={0}
+                      max={51}
+                      step={1}
+                      onValueChange={([v]) => update({ crf: v })}
+                    />
+                    <FieldDescription className="text-xs">
+                      Lower is better; 18 is visually lossless, +6 roughly halves the size.
+                    </FieldDescription>
+                  </Field>
+                ) : (
+                  <Field orientation="horizontal">
+                    <FieldLabel htmlFor="mp4-bitrate" className="text-xs">
+                      Bitrate
+                    </FieldLabel>
+                    <BitrateInput
+                      id="mp4-bitrate"
+                      value={settings.mp4BitrateKbps}
+                      onChange={(mp4BitrateKbps) => update({ mp4BitrateKbps })}
+                    />
+                  </Field>
+                )}
+                <Field orientation="horizontal">
+                  <FieldLabel className="text-xs">Preset</FieldLabel>
+                  <Select
+                    value={settings.preset}
+                    onValueChange={(v) => update({ preset: v as X264Preset })}
+                  >
+                    <SelectTrigger size="sm" className="w-32 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent position="popper">
+                      {X264_PRESETS.map((p) => (
+                        <SelectItem key={p} value={p}>
+                          {formatName(p)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </Field>
+                <Field orientation="horizontal">
+                  <FieldLabel className="text-xs">Pixel Format</FieldLabel>
+                  <Tabs
+                    value={settings.pixelFormat}
+                    onValueChange={(v) => update({ pixelFormat: v as PixelFormat })}
+                  >
+                    <TabsList>
+                      <TabsTrigger value="yuv420p" className="text-xs">
+                        4:2:0
+                      </TabsTrigger>
+                      <TabsTrigger value="yuv444p" className="text-xs">
+                        4:4:4
+                      </TabsTrigger>
+                    </TabsList>
+                  </Tabs>
+                </Field>
+                {settings.pixelFormat === "yuv420p" ? (
+                  <Field orientation="horizontal">
+                    <FieldLabel className="text-xs">Profile</FieldLabel>
+                    <Select
+                      value={settings.profile}
+                      onValueChange={(v) => update({ profile: v as H264Profile })}
+                    >
+                      <SelectTrigger size="sm" className="w-32 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent position="popper">
+                        <SelectItem value="high">High</SelectItem>
+                        <SelectItem value="main">Main</SelectItem>
+                        <SelectItem value="baseline">Baseline</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </Field>
+                ) : (
+                  <FieldDescription className="text-xs">
+                    4:4:4 keeps colored text sharp but uses the High 4:4:4 profile, which many
+                    players cannot decode.
+                  </FieldDescription>
+                )}
+              </>
+            ) : (
+              <Field orientation="horizontal">
+                <FieldLabel htmlFor="webm-bitrate" className="text-xs">
+                  Bitrate
+                </FieldLabel>
+                <BitrateInput
+                  id="webm-bitrate"
+                  value={settings.webmBitrateKbps}
+                  onChange={(webmBitrateKbps) => update({ webmBitrateKbps })}
+                />
+              </Field>
+            )}
+            <Field>
+              <div className="flex justify-between items-center">
+                <FieldLabel className="text-xs">Keyframe Interval</FieldLabel>
+                <FieldLabel className="text-xs text-muted-foreground font-mono">
+                  {settings.keyframeIntervalS}s
+                </FieldLabel>
+              </div>
+              <Slider
+                value={[settings.keyframeIntervalS]}
+                min={0.5}
+                max={10}
+                step={0.5}
+                onValueChange={([v]) => update({ keyframeIntervalS: v })}
+              />
+            </Field>
+            {format === "mp4" && (
+              <FieldDescription className="text-xs">
+                {mp4NeedsFFmpeg(settings)
+                  ? "CRF and 4:4:4 encode through FFmpeg; presets apply there."
+                  : "Bitrate mode encodes directly in the browser when supported; otherwise FFmpeg is used."}
+              </FieldDescription>
+            )}
+          </FieldGroup>
+        </FieldSet>
+      </PopoverContent>
+    </Popover>
+  );
+}
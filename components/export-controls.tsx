@@ -1,11 +1,25 @@
 "use client";
 
 import { useState } from "react";
-import { Download, Film } from "lucide-react";
+import { Download, FileArchive, Film, ImageIcon, SlidersHorizontal, X } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
 import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
 import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Field, FieldDescription, FieldGroup, FieldLabel } from "@/components/ui/field";
+import type { TransitionPhases } from "@/app/lib/magicMove/animate";
+import type { EasingSpec } from "@/app/lib/magicMove/easing";
+import { EXPORT_FORMATS, isAnimatedImageFormat, type ExportFormat } from "@/app/lib/video/formats";
+import { MAX_ANIMATED_IMAGE_FPS, type AnimatedImageOptions } from "@/app/lib/video/animatedImage";
+import type { ImageSequenceMode } from "@/app/lib/video/imageSequence";
+import type { EncoderSettings } from "@/app/lib/video/encoderSettings";
+import type { AudioSettings } from "@/app/lib/video/soundtrack";
+import type { FrameSize } from "@/app/lib/magicMove/codeLayout";
+import { EasingPicker } from "./easing-picker";
+import { EncoderSettingsPopover } from "./encoder-settings-popover";
+import { AudioSettingsPopover } from "./audio-settings-popover";
 import { cn } from "@/lib/utils";
 
 interface ExportControlsProps {
@@ -13,30 +27,73 @@ interface ExportControlsProps {
   totalMs: number;
   transitionMs: number;
   onTransitionMsChange: (value: number) => void;
+  phases: TransitionPhases;
+  onPhasesChange: (value: TransitionPhases) => void;
+  easing: EasingSpec;
+  onEasingChange: (value: EasingSpec) => void;
   downloadUrl: string | null;
   isExporting: boolean;
   exportPhase: "recording" | "saving" | null;
   exportProgress: number;
-  onExport: (format: "webm" | "mp4") => void;
+  onExport: (format: ExportFormat) => void;
+  onExportFormatChange: (format: ExportFormat) => void;
+  onCancelExport: () => void;
   canExport: boolean;
+  fps: number;
+  animatedImageOptions: AnimatedImageOptions;
+  onAnimatedImageOptionsChange: (value: AnimatedImageOptions) => void;
+  imageSequenceMode: ImageSequenceMode;
+  onImageSequenceModeChange: (value: ImageSequenceMode) => void;
+  encoderSettings: EncoderSettings;
+  onEncoderSettingsChange: (value: EncoderSettings) => void;
+  audioSettings: AudioSettings;
+  onAudioSettingsChange: (value: AudioSettings) => void;
+  // Size of the exported frame, for file size estimates
+  exportSize: FrameSize;
 }
 
+const SCALE_OPTIONS = [0.25, 0.5, 0.75, 1];
+
 export function ExportControls({
   stepCount,
   totalMs,
   transitionMs,
   onTransitionMsChange,
+  phases,
+  onPhasesChange,
+  easing,
+  onEasingChange,
   downloadUrl,
   isExporting,
   exportPhase,
   exportProgress,
   onExport,
+  onExportFormatChange,
+  onCancelExport,
   canExport,
+  fps,
+  animatedImageOptions,
+  onAnimatedImageOptionsChange,
+  imageSequenceMode,
+  onImageSequenceModeChange,
+  encoderSettings,
+  onEncoderSettingsChange,
+  audioSettings,
+  onAudioSettingsChange,
+  exportSize,
 }: ExportControlsProps) {
-  const [format, setFormat] = useState<"webm" | "mp4">("webm");
+  const [format, setFormat] = useState<ExportFormat>("webm");
+  // Format of the last export, so the download keeps its extension if the tab changes
+  const [exportedFormat, setExportedFormat] = useState<ExportFormat>("webm");
+  const exported = EXPORT_FORMATS.find((f) => f.id === exportedFormat)!;
+  const maxImageFps = Math.min(fps, MAX_ANIMATED_IMAGE_FPS);
 
   const statusText = exportPhase === "saving" ? "Preparing" : "Recording";
 
+  const shareTotal = phases.exit + phases.move + phases.enter;
+  const phaseMs = (share: number) =>
+    shareTotal <= 0 ? 0 : Math.round((transitionMs * share) / shareTotal);
+
   return (
     <div className="flex-none p-4 flex flex-wrap items-center justify-between gap-x-4 gap-y-2 bg-muted/20 border-t">
       <div className="flex items-center gap-4">
@@ -57,6 +114,73 @@ export function ExportControls({
             onValueChange={([v]) => onTransitionMsChange(v)}
             className="w-40"
           />
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button
+                variant={phases.enabled ? "secondary" : "ghost"}
+                size="icon"
+                className="h-7 w-7"
+                title="Transition settings"
+              >
+                <SlidersHorizontal className="w-3.5 h-3.5" />
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-72 p-4" side="top">
+              <FieldGroup>
+                <Field>
+                  <FieldLabel className="text-xs">Easing</FieldLabel>
+                  <EasingPicker value={easing} onChange={(v) => v && onEasingChange(v)} />
+                </Field>
+                <Field orientation="horizontal">
+                  <FieldLabel htmlFor="phased-transition">Phased transition</FieldLabel>
+                  <Switch
+                    id="phased-transition"
+                    checked={phases.enabled}
+                    onCheckedChange={(enabled) => onPhasesChange({ ...phases, enabled })}
+                  />
+                </Field>
+                <FieldDescription>
+                  Removed tokens leave first, kept tokens slide, then new tokens appear.
+                </FieldDescription>
+                {phases.enabled && (
+                  <>
+                    {(["exit", "move", "enter"] as const).map((phase) => (
+                      <Field key={phase}>
+                        <div className="flex justify-between items-center">
+                          <FieldLabel className="text-xs capitalize">{phase}</FieldLabel>
+                          <FieldLabel className="text-xs text-muted-foreground font-mono">
+                            {phaseMs(phases[phase])}ms
+                          </FieldLabel>
+                        </div>
+                        <Slider
+                          value={[phases[phase]]}
+                          min={0}
+                          max={4}
+                          step={0.5}
+                          onValueChange={([v]) => onPhasesChange({ ...phases, [phase]: v })}
+                        />
+                      </Field>
+                    ))}
+                    <Field>
+                      <div className="flex justify-between items-center">
+                        <FieldLabel className="text-xs">Line Stagger</FieldLabel>
+                        <FieldLabel className="text-xs text-muted-foreground font-mono">
+                          {phases.lineStaggerMs}ms
+                        </FieldLabel>
+                      </div>
+                      <Slider
+                        value={[phases.lineStaggerMs]}
+                        min={0}
+                        max={200}
+                        step={10}
+                        onValueChange={([v]) => onPhasesChange({ ...phases, lineStaggerMs: v })}
+                      />
+                    </Field>
+                  </>
+                )}
+              </FieldGroup>
+            </PopoverContent>
+          </Popover>
         </div>
       </div>
 
@@ -64,32 +188,176 @@ export function ExportControls({
         <Label className="text-xs whitespace-nowrap">Format:</Label>
         <Tabs
           value={format}
-          onValueChange={(v) => setFormat(v as "webm" | "mp4")}
+          onValueChange={(v) => {
+            setFormat(v as ExportFormat);
+            onExportFormatChange(v as ExportFormat);
+          }}
           className="w-fit"
         >
           <TabsList>
-            <TabsTrigger value="webm">WebM</TabsTrigger>
-            <TabsTrigger value="mp4">MP4</TabsTrigger>
+            {EXPORT_FORMATS.map((f) => (
+              <TabsTrigger key={f.id} value={f.id}>
+                {f.label}
+              </TabsTrigger>
+            ))}
           </TabsList>
         </Tabs>
 
+        {(format === "webm" || format === "mp4") && (
+          <EncoderSettingsPopover
+            format={format}
+            settings={encoderSettings}
+            onSettingsChange={onEncoderSettingsChange}
+            exportSize={exportSize}
+            fps={fps}
+            totalMs={totalMs}
+          />
+        )}
+
+        {(format === "webm" || format === "mp4") && (
+          <AudioSettingsPopover
+            settings={audioSettings}
+            onSettingsChange={onAudioSettingsChange}
+            totalMs={totalMs}
+          />
+        )}
+
+        {isAnimatedImageFormat(format) && (
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button variant="ghost" size="icon" className="h-7 w-7" title="Image settings">
+                <SlidersHorizontal className="w-3.5 h-3.5" />
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-64 p-4" side="top">
+              <FieldGroup>
+                <Field>
+                  <div className="flex justify-between items-center">
+                    <FieldLabel className="text-xs">Frame Rate</FieldLabel>
+                    <FieldLabel className="text-xs text-muted-foreground font-mono">
+                      {Math.min(animatedImageOptions.fps, maxImageFps)} fps
+                    </FieldLabel>
+                  </div>
+                  <Slider
+                    value={[Math.min(animatedImageOptions.fps, maxImageFps)]}
+                    min={5}
+                    max={maxImageFps}
+                    step={1}
+                    onValueChange={([v]) =>
+                      onAnimatedImageOptionsChange({ ...animatedImageOptions, fps: v })
+                    }
+                  />
+                </Field>
+                <Field>
+                  <FieldLabel className="text-xs">Size</FieldLabel>
+                  <Tabs
+                    value={String(animatedImageOptions.scale)}
+                    onValueChange={(v) =>
+                      onAnimatedImageOptionsChange({ ...animatedImageOptions, scale: Number(v) })
+                    }
+                  >
+                    <TabsList className="w-full">
+                      {SCALE_OPTIONS.map((scale) => (
+                        <TabsTrigger key={scale} value={String(scale)} className="text-xs">
+                          {scale * 100}%
+                        </TabsTrigger>
+                      ))}
+                    </TabsList>
+                  </Tabs>
+                </Field>
+                {format === "gif" && (
+                  <>
+                    <Field orientation="horizontal">
+                      <FieldLabel htmlFor="gif-dither">Dithering</FieldLabel>
+                      <Switch
+                        id="gif-dither"
+                        checked={animatedImageOptions.dither}
+                        onCheckedChange={(dither) =>
+                          onAnimatedImageOptionsChange({ ...animatedImageOptions, dither })
+                        }
+                      />
+                    </Field>
+                    <FieldDescription>
+                      Smooths gradients and anti-aliased text at the cost of a larger file.
+                    </FieldDescription>
+                  </>
+                )}
+              </FieldGroup>
+            </PopoverContent>
+          </Popover>
+        )}
+
+        {format === "png" && (
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button variant="ghost" size="icon" className="h-7 w-7" title="Still settings">
+                <SlidersHorizontal className="w-3.5 h-3.5" />
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-64 p-4" side="top">
+              <FieldGroup>
+                <Field>
+                  <FieldLabel className="text-xs">Stills</FieldLabel>
+                  <Tabs
+                    value={imageSequenceMode}
+                    onValueChange={(v) => onImageSequenceModeChange(v as ImageSequenceMode)}
+                  >
+                    <TabsList className="w-full">
+                      <TabsTrigger value="steps" className="text-xs">
+                        Each step
+                      </TabsTrigger>
+                      <TabsTrigger value="frames" className="text-xs">
+                        Every frame
+                      </TabsTrigger>
+                    </TabsList>
+                  </Tabs>
+                </Field>
+                <FieldDescription>
+                  {imageSequenceMode === "steps"
+                    ? "One PNG per step at rest, named step-01.png, step-02.png…"
+                    : `${fps} PNGs per second, named frame-00001-step-01.png…`}
+                </FieldDescription>
+              </FieldGroup>
+            </PopoverContent>
+          </Popover>
+        )}
+
         {downloadUrl && (
           <Button variant="outline" size="sm" asChild className="gap-2">
-            <a href={downloadUrl} download={`magic-move.${format}`}>
-              <Film className="w-4 h-4" />
-              Save Video
+            <a href={downloadUrl} download={`magic-move.${exported.extension}`}>
+              {exportedFormat === "png" ? (
+                <FileArchive className="w-4 h-4" />
+              ) : isAnimatedImageFormat(exportedFormat) ? (
+                <ImageIcon className="w-4 h-4" />
+              ) : (
+                <Film className="w-4 h-4" />
+              )}
+              {exportedFormat === "png"
+                ? "Save ZIP"
+                : isAnimatedImageFormat(exportedFormat)
+                  ? "Save Image"
+                  : "Save Video"}
             </a>
           </Button>
         )}
         <Button
           size="sm"
           className={cn("min-w-[100px]", isExporting && "opacity-80")}
-          onClick={() => onExport(format)}
+          onClick={() => {
+            setExportedFormat(format);
+            onExport(format);
+          }}
           disabled={!canExport || isExporting}
         >
           <Download className="w-4 h-4" />
           {isExporting ? `${statusText} ${Math.round(exportProgress * 100)}%` : "Export"}
         </Button>
+        {isExporting && (
+          <Button variant="outline" size="sm" onClick={onCancelExport}>
+            <X className="w-4 h-4" />
+            Cancel
+          </Button>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,237 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { FolderGit2, GitCommitHorizontal, Loader2, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Separator } from "@/components/ui/separator";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Field,
+  FieldDescription,
+  FieldGroup,
+  FieldLabel,
+  FieldLegend,
+  FieldSet,
+} from "@/components/ui/field";
+import {
+  openBundleRepository,
+  openDirectoryRepository,
+  type GitRepository,
+} from "@/app/lib/git/repository";
+import { MAX_HISTORY_STEPS, languageForPath, readFileHistory } from "@/app/lib/git/fileHistory";
+import type { SimpleStep } from "@/app/lib/magicMove/types";
+import { cn } from "@/lib/utils";
+
+interface GitHistoryPopoverProps {
+  // Opens the history as a new project
+  onImportHistory: (history: { name: string; lang: string; steps: SimpleStep[] }) => Promise<void>;
+}
+
+// Not in the TypeScript DOM types yet (Chromium-based browsers only)
+type DirectoryPicker = (options?: { mode?: "read" }) => Promise<FileSystemDirectoryHandle>;
+
+function directoryPicker(): DirectoryPicker | undefined {
+  if (typeof window === "undefined") return undefined;
+  return (window as Window & { showDirectoryPicker?: DirectoryPicker }).showDirectoryPicker;
+}
+
+export function GitHistoryPopover({ onImportHistory }: GitHistoryPopoverProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [repo, setRepo] = useState<GitRepository | null>(null);
+  const [path, setPath] = useState("");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [captions, setCaptions] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [status, setStatus] = useState<{ message: string; error?: boolean } | null>(null);
+
+  const run = async (task: () => Promise<string | null>) => {
+    setBusy(true);
+    setStatus(null);
+    try {
+      const message = await task();
+      if (message) setStatus({ message });
+    } catch (e) {
+      // Closing the directory picker is not an error
+      if (e instanceof DOMException && e.name === "AbortError") return;
+      setStatus({
+        message: e instanceof Error ? e.message : "Failed to read history",
+        error: true,
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const openFolder = () =>
+    run(async () => {
+      const handle = await directoryPicker()!({ mode: "read" });
+      setRepo(await openDirectoryRepository(handle));
+      return null;
+    });
+
+  const openBundle = (file: File) =>
+    run(async () => {
+      setRepo(await openBundleRepository(file));
+      return null;
+    });
+
+  const importHistory = () =>
+    run(async () => {
+      if (!repo) return null;
+      const revisions = await readFileHistory(repo, { path, from, to });
+      const fileName = path.split("/").filter(Boolean).pop() ?? path;
+      await onImportHistory({
+        name: `${fileName} history`,
+        lang: languageForPath(path),
+        steps: revisions.map((revision) => ({
+          code: revision.content,
+          caption: captions ? revision.subject || undefined : undefined,
+        })),
+      });
+      return revisions.length === MAX_HISTORY_STEPS
+        ? `Imported the latest ${MAX_HISTORY_STEPS} changes; set From to go further back.`
+        : `Imported ${revisions.length} ${revisions.length === 1 ? "version" : "versions"}.`;
+    });
+
+  return (
+    <Popover onOpenChange={(open) => !open && setStatus(null)}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="h-8 w-8" title="Import from git history">
+          <GitCommitHorizontal className="w-4 h-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 p-4 mt-1" align="end">
+        <FieldSet>
+          <FieldLegend>Git History</FieldLegend>
+          <FieldDescription className="text-xs">
+            One step per commit that changed a file, oldest first. Nothing leaves your browser.
+          </FieldDescription>
+
+          <div className="flex gap-1.5">
+            <Button
+              size="sm"
+              variant="outline"
+              className="h-7 flex-1 gap-1 text-xs"
+              disabled={busy || !directoryPicker()}
+              title={
+                directoryPicker()
+                  ? "Pick a repository folder"
+                  : "This browser cannot open folders; upload a bundle instead"
+              }
+              onClick={() => void openFolder()}
+            >
+              <FolderGit2 className="w-3.5 h-3.5" /> Open Folder
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              className="h-7 flex-1 gap-1 text-xs"
+              disabled={busy}
+              title="git bundle create repo.bundle main"
+              onClick={() => fileInputRef.current?.click()}
+            >
+              <Upload className="w-3.5 h-3.5" /> Upload Bundle
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".bundle"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = "";
+                if (file) void openBundle(file);
+              }}
+            />
+          </div>
+
+          {repo && (
+            <>
+              <Separator />
+              <FieldGroup>
+                <FieldDescription className="text-xs truncate">
+                  Repository: <span className="font-mono">{repo.name}</span>
+                </FieldDescription>
+                <Field>
+                  <FieldLabel htmlFor="git-history-path" className="text-xs">
+                    File Path
+                  </FieldLabel>
+                  <Input
+                    id="git-history-path"
+                    value={path}
+                    placeholder="src/index.ts"
+                    onChange={(e) => setPath(e.target.value)}
+                    className="h-7 font-mono text-xs"
+                  />
+                </Field>
+                <div className="grid grid-cols-2 gap-2">
+                  <Field>
+                    <FieldLabel htmlFor="git-history-from" className="text-xs">
+                      From
+                    </FieldLabel>
+                    <Input
+                      id="git-history-from"
+                      value={from}
+                      placeholder="first commit"
+                      onChange={(e) => setFrom(e.target.value)}
+                      className="h-7 font-mono text-xs"
+                    />
+                  </Field>
+                  <Field>
+                    <FieldLabel htmlFor="git-history-to" className="text-xs">
+                      To
+                    </FieldLabel>
+                    <Input
+                      id="git-history-to"
+                      value={to}
+                      placeholder="HEAD"
+                      onChange={(e) => setTo(e.target.value)}
+                      className="h-7 font-mono text-xs"
+                    />
+                  </Field>
+                </div>
+                <FieldDescription className="text-xs">
+                  Commit hashes, branches or tags. From is included.
+                </FieldDescription>
+                <Field orientation="horizontal">
+                  <FieldLabel htmlFor="git-history-captions" className="text-xs">
+                    Commit Messages as Captions
+                  </FieldLabel>
+                  <Switch
+                    id="git-history-captions"
+                    checked={captions}
+                    onCheckedChange={setCaptions}
+                  />
+                </Field>
+                <Button
+                  size="sm"
+                  className="h-7 gap-1 text-xs"
+                  disabled={busy || !path.trim()}
+                  onClick={() => void importHistory()}
+                >
+                  {busy && <Loader2 className="w-3.5 h-3.5 animate-spin" />} Import Steps
+                </Button>
+              </FieldGroup>
+            </>
+          )}
+
+          {busy && !repo && (
+            <p className="text-xs text-muted-foreground flex items-center gap-1.5">
+              <Loader2 className="w-3.5 h-3.5 animate-spin" /> Reading repository…
+            </p>
+          )}
+          {status && (
+            <p
+              className={cn("text-xs", status.error ? "text-destructive" : "text-muted-foreground")}
+            >
+              {status.message}
+            </p>
+          )}
+        </FieldSet>
+      </PopoverContent>
+    </Popover>
+  );
+}
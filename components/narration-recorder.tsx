@@ -0,0 +1,162 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { Mic, Pause, Play, Square, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import type { Narration } from "@/app/lib/magicMove/types";
+import { startNarrationRecording, type NarrationRecording } from "@/app/lib/video/narration";
+
+interface NarrationRecorderProps {
+  index: number;
+  narration: Narration | undefined;
+  onNarrationChange: (narration: Narration | undefined) => void;
+}
+
+function formatSeconds(ms: number) {
+  return `${(ms / 1000).toFixed(1)}s`;
+}
+
+export function NarrationRecorder({ index, narration, onNarrationChange }: NarrationRecorderProps) {
+  const [recording, setRecording] = useState<NarrationRecording | null>(null);
+  const [elapsedMs, setElapsedMs] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+
+  // Elapsed time while recording
+  useEffect(() => {
+    if (!recording) return;
+    const startedAt = performance.now();
+    const id = setInterval(() => setElapsedMs(performance.now() - startedAt), 100);
+    return () => clearInterval(id);
+  }, [recording]);
+
+  // Release the microphone if the step goes away mid-recording
+  useEffect(() => () => recording?.cancel(), [recording]);
+
+  // One playable element per clip
+  useEffect(() => {
+    if (!narration) return;
+    const url = URL.createObjectURL(narration.audio);
+    const audio = new Audio(url);
+    audio.onended = () => setIsPlaying(false);
+    audioRef.current = audio;
+    return () => {
+      audio.pause();
+      audioRef.current = null;
+      setIsPlaying(false);
+      URL.revokeObjectURL(url);
+    };
+  }, [narration]);
+
+  const onRecord = async () => {
+    setError(null);
+    audioRef.current?.pause();
+    try {
+      setElapsedMs(0);
+      setRecording(await startNarrationRecording());
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Recording failed");
+    }
+  };
+
+  const onStop = async () => {
+    if (!recording) return;
+    const current = recording;
+    setRecording(null);
+    try {
+      onNarrationChange(await current.stop());
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Recording failed");
+    }
+  };
+
+  const onTogglePlay = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (isPlaying) {
+      audio.pause();
+      setIsPlaying(false);
+    } else {
+      audio.currentTime = 0;
+      void audio.play();
+      setIsPlaying(true);
+    }
+  };
+
+  if (recording) {
+    return (
+      <div className="flex items-center gap-1">
+        <span className="flex items-center gap-1.5 text-xs font-mono text-destructive">
+          <span className="h-2 w-2 rounded-full bg-destructive animate-pulse" />
+          {formatSeconds(elapsedMs)}
+        </span>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7"
+          title="Stop recording"
+          onClick={onStop}
+        >
+          <Square className="w-3.5 h-3.5" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7"
+          title="Discard recording"
+          onClick={() => {
+            recording.cancel();
+            setRecording(null);
+          }}
+        >
+          <X className="w-3.5 h-3.5" />
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-1">
+      {error && <span className="text-xs text-destructive">{error}</span>}
+      {narration && (
+        <>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            title={isPlaying ? "Pause narration" : "Play narration"}
+            onClick={onTogglePlay}
+          >
+            {isPlaying ? <Pause className="w-3.5 h-3.5" /> : <Play className="w-3.5 h-3.5" />}
+          </Button>
+          <span className="text-xs font-mono text-muted-foreground">
+            {formatSeconds(narration.durationMs)}
+          </span>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7 text-muted-foreground hover:text-destructive"
+            title="Remove narration"
+            onClick={() => onNarrationChange(undefined)}
+          >
+            <Trash2 className="w-3.5 h-3.5" />
+          </Button>
+        </>
+      )}
+      <Button
+        variant={narration ? "secondary" : "ghost"}
+        size="icon"
+        className="h-7 w-7"
+        title={
+          narration
+            ? `Re-record narration for step ${index + 1}`
+            : `Record narration for step ${index + 1}`
+        }
+        onClick={onRecord}
+      >
+        <Mic className="w-3.5 h-3.5" />
+      </Button>
+    </div>
+  );
+}
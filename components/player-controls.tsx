@@ -1,15 +1,53 @@
 "use client";
 
-import { Play, Pause, RotateCcw } from "lucide-react";
+import {
+  ChevronLeft,
+  ChevronRight,
+  Play,
+  Pause,
+  Repeat,
+  RotateCcw,
+  SkipBack,
+  SkipForward,
+} from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Slider } from "@/components/ui/slider";
 import { Separator } from "@/components/ui/separator";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { PLAYBACK_RATES, type LoopMode, type TimelineSegment } from "@/app/lib/magicMove/timeline";
+import { cn } from "@/lib/utils";
+
+const NEXT_LOOP_MODE: Record<LoopMode, LoopMode> = {
+  off: "loop",
+  loop: "pingpong",
+  pingpong: "off",
+};
+
+const LOOP_MODE_LABELS: Record<LoopMode, string> = {
+  off: "Once",
+  loop: "Loop",
+  pingpong: "Ping-pong",
+};
 
 interface PlayerControlsProps {
   isPlaying: boolean;
   onPlayPause: () => void;
+  onStepFrame: (direction: -1 | 1) => void;
+  onStepJump: (direction: -1 | 1) => void;
+  playbackRate: number;
+  onPlaybackRateChange: (rate: number) => void;
+  loopMode: LoopMode;
+  onLoopModeChange: (mode: LoopMode) => void;
   playheadMs: number;
   totalMs: number;
+  // Transitions are marked under the slider
+  segments: TimelineSegment[];
   onSeek: (ms: number) => void;
   onReset: () => void;
   disabled?: boolean;
@@ -18,26 +56,57 @@ interface PlayerControlsProps {
 export function PlayerControls({
   isPlaying,
   onPlayPause,
+  onStepFrame,
+  onStepJump,
+  playbackRate,
+  onPlaybackRateChange,
+  loopMode,
+  onLoopModeChange,
   playheadMs,
   totalMs,
+  segments,
   onSeek,
   onReset,
   disabled = false,
 }: PlayerControlsProps) {
+  const navButton = (title: string, onClick: () => void, icon: React.ReactNode) => (
+    <Button
+      variant="ghost"
+      size="icon"
+      className="h-8 w-8 text-muted-foreground"
+      onClick={onClick}
+      disabled={disabled}
+      title={title}
+    >
+      {icon}
+    </Button>
+  );
+
   return (
     <div className="flex-none border-t bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60 p-3 flex items-center gap-4">
-      <Button
-        size="icon"
-        className="h-10 w-10 shrink-0 rounded-full"
-        onClick={onPlayPause}
-        disabled={disabled}
-      >
-        {isPlaying ? (
-          <Pause className="w-5 h-5 fill-current" />
-        ) : (
-          <Play className="w-5 h-5 fill-current ml-0.5" />
+      <div className="flex items-center gap-1 shrink-0">
+        {navButton("Previous step (↑)", () => onStepJump(-1), <SkipBack className="w-4 h-4" />)}
+        {navButton(
+          "Previous frame (←)",
+          () => onStepFrame(-1),
+          <ChevronLeft className="w-4 h-4" />,
         )}
-      </Button>
+        <Button
+          size="icon"
+          className="h-10 w-10 shrink-0 rounded-full"
+          onClick={onPlayPause}
+          disabled={disabled}
+          title={isPlaying ? "Pause (Space)" : "Play (Space)"}
+        >
+          {isPlaying ? (
+            <Pause className="w-5 h-5 fill-current" />
+          ) : (
+            <Play className="w-5 h-5 fill-current ml-0.5" />
+          )}
+        </Button>
+        {navButton("Next frame (→)", () => onStepFrame(1), <ChevronRight className="w-4 h-4" />)}
+        {navButton("Next step (↓)", () => onStepJump(1), <SkipForward className="w-4 h-4" />)}
+      </div>
 
       <div className="flex-1 flex flex-col gap-1.5">
         <div className="flex items-center justify-between text-xs font-medium text-muted-foreground">
@@ -53,10 +122,48 @@ export function PlayerControls({
           className="py-1"
           noThumb
         />
+        <div className="relative h-1">
+          {totalMs > 0 &&
+            segments.map(
+              (segment) =>
+                segment.kind === "transition" && (
+                  <span
+                    key={segment.from}
+                    className="absolute inset-y-0 rounded-full bg-primary/40"
+                    style={{
+                      left: `${(segment.startMs / totalMs) * 100}%`,
+                      width: `${(segment.durationMs / totalMs) * 100}%`,
+                    }}
+                  />
+                ),
+            )}
+        </div>
       </div>
 
       <div className="flex items-center gap-2 pl-1">
         <Separator orientation="vertical" className="h-8" />
+        <Button
+          variant={loopMode === "off" ? "ghost" : "secondary"}
+          size="sm"
+          className={cn("h-8 gap-1 text-xs", loopMode === "off" && "text-muted-foreground")}
+          onClick={() => onLoopModeChange(NEXT_LOOP_MODE[loopMode])}
+          title="Loop mode: off, loop or ping-pong"
+        >
+          <Repeat className="w-3.5 h-3.5" />
+          {LOOP_MODE_LABELS[loopMode]}
+        </Button>
+        <Select value={String(playbackRate)} onValueChange={(v) => onPlaybackRateChange(Number(v))}>
+          <SelectTrigger size="sm" className="w-20 text-xs font-mono" title="Playback speed">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent position="popper">
+            {PLAYBACK_RATES.map((rate) => (
+              <SelectItem key={rate} value={String(rate)} className="font-mono">
+                {rate}×
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
         <Button
           variant="ghost"
           size="icon"
@@ -3,7 +3,17 @@
 import { ResizablePanel } from "@/components/ui/resizable";
 import { CanvasPreview } from "./canvas-preview";
 import { PlayerControls } from "./player-controls";
+import { TimelineTrack } from "./timeline-track";
 import { ExportControls } from "./export-controls";
+import type { TransitionPhases } from "@/app/lib/magicMove/animate";
+import type { EasingSpec } from "@/app/lib/magicMove/easing";
+import type { ExportFormat } from "@/app/lib/video/formats";
+import type { AnimatedImageOptions } from "@/app/lib/video/animatedImage";
+import type { ImageSequenceMode } from "@/app/lib/video/imageSequence";
+import type { EncoderSettings } from "@/app/lib/video/encoderSettings";
+import type { AudioSettings } from "@/app/lib/video/soundtrack";
+import type { FrameSize } from "@/app/lib/magicMove/codeLayout";
+import type { LoopMode, TimelineSegment, TimelineStop } from "@/app/lib/magicMove/timeline";
 
 interface PreviewPanelProps {
   canvasRef: React.RefObject<HTMLCanvasElement | null>;
@@ -11,20 +21,46 @@ interface PreviewPanelProps {
   onDismissError: () => void;
   isPlaying: boolean;
   onPlayPause: () => void;
+  onStepFrame: (direction: -1 | 1) => void;
+  onStepJump: (direction: -1 | 1) => void;
+  playbackRate: number;
+  onPlaybackRateChange: (rate: number) => void;
+  loopMode: LoopMode;
+  onLoopModeChange: (mode: LoopMode) => void;
   playheadMs: number;
   totalMs: number;
+  segments: TimelineSegment[];
+  stops: TimelineStop[];
+  thumbnails: string[];
+  onSegmentDurationChange: (index: number, durationMs: number) => void;
   onSeek: (ms: number) => void;
   onReset: () => void;
   stepLayouts: unknown[] | null;
   stepCount: number;
   transitionMs: number;
   onTransitionMsChange: (value: number) => void;
+  phases: TransitionPhases;
+  onPhasesChange: (value: TransitionPhases) => void;
+  easing: EasingSpec;
+  onEasingChange: (value: EasingSpec) => void;
   downloadUrl: string | null;
   isExporting: boolean;
   exportPhase: "recording" | "saving" | null;
   exportProgress: number;
-  onExport: (format: "webm" | "mp4") => void;
+  onExport: (format: ExportFormat) => void;
+  onExportFormatChange: (format: ExportFormat) => void;
+  onCancelExport: () => void;
   canExport: boolean;
+  fps: number;
+  animatedImageOptions: AnimatedImageOptions;
+  onAnimatedImageOptionsChange: (value: AnimatedImageOptions) => void;
+  imageSequenceMode: ImageSequenceMode;
+  onImageSequenceModeChange: (value: ImageSequenceMode) => void;
+  encoderSettings: EncoderSettings;
+  onEncoderSettingsChange: (value: EncoderSettings) => void;
+  audioSettings: AudioSettings;
+  onAudioSettingsChange: (value: AudioSettings) => void;
+  exportSize: FrameSize;
 }
 
 export function PreviewPanel({
@@ -33,20 +69,46 @@ export function PreviewPanel({
   onDismissError,
   isPlaying,
   onPlayPause,
+  onStepFrame,
+  onStepJump,
+  playbackRate,
+  onPlaybackRateChange,
+  loopMode,
+  onLoopModeChange,
   playheadMs,
   totalMs,
+  segments,
+  stops,
+  thumbnails,
+  onSegmentDurationChange,
   onSeek,
   onReset,
   stepLayouts,
   stepCount,
   transitionMs,
   onTransitionMsChange,
+  phases,
+  onPhasesChange,
+  easing,
+  onEasingChange,
   downloadUrl,
   isExporting,
   exportPhase,
   exportProgress,
   onExport,
+  onExportFormatChange,
+  onCancelExport,
   canExport,
+  fps,
+  animatedImageOptions,
+  onAnimatedImageOptionsChange,
+  imageSequenceMode,
+  onImageSequenceModeChange,
+  encoderSettings,
+  onEncoderSettingsChange,
+  audioSettings,
+  onAudioSettingsChange,
+  exportSize,
 }: PreviewPanelProps) {
   return (
     <ResizablePanel
@@ -61,11 +123,29 @@ export function PreviewPanel({
         isLoading={!stepLayouts}
       />
 
+      <TimelineTrack
+        segments={segments}
+        stops={stops}
+        totalMs={totalMs}
+        playheadMs={playheadMs}
+        thumbnails={thumbnails}
+        onSeek={onSeek}
+        onSegmentDurationChange={onSegmentDurationChange}
+        disabled={!stepLayouts}
+      />
+
       <PlayerControls
         isPlaying={isPlaying}
         onPlayPause={onPlayPause}
+        onStepFrame={onStepFrame}
+        onStepJump={onStepJump}
+        playbackRate={playbackRate}
+        onPlaybackRateChange={onPlaybackRateChange}
+        loopMode={loopMode}
+        onLoopModeChange={onLoopModeChange}
         playheadMs={playheadMs}
         totalMs={totalMs}
+        segments={segments}
         onSeek={onSeek}
         onReset={onReset}
         disabled={!stepLayouts}
@@ -76,12 +156,28 @@ export function PreviewPanel({
         totalMs={totalMs}
         transitionMs={transitionMs}
         onTransitionMsChange={onTransitionMsChange}
+        phases={phases}
+        onPhasesChange={onPhasesChange}
+        easing={easing}
+        onEasingChange={onEasingChange}
         downloadUrl={downloadUrl}
         isExporting={isExporting}
         exportPhase={exportPhase}
         exportProgress={exportProgress}
         onExport={onExport}
+        onExportFormatChange={onExportFormatChange}
+        onCancelExport={onCancelExport}
         canExport={canExport}
+        fps={fps}
+        animatedImageOptions={animatedImageOptions}
+        onAnimatedImageOptionsChange={onAnimatedImageOptionsChange}
+        imageSequenceMode={imageSequenceMode}
+        onImageSequenceModeChange={onImageSequenceModeChange}
+        encoderSettings={encoderSettings}
+        onEncoderSettingsChange={onEncoderSettingsChange}
+        audioSettings={audioSettings}
+        onAudioSettingsChange={onAudioSettingsChange}
+        exportSize={exportSize}
       />
     </ResizablePanel>
   );
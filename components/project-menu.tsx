@@ -0,0 +1,269 @@
+"use client";
+
+import { useRef, useState } from "react";
+import {
+  Check,
+  Copy,
+  Download,
+  FolderOpen,
+  Link,
+  Pencil,
+  Plus,
+  Trash2,
+  Upload,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Separator } from "@/components/ui/separator";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { FieldDescription, FieldLegend } from "@/components/ui/field";
+import type { ProjectSummary } from "@/app/lib/project/project";
+import { PROJECT_FILE_EXTENSION } from "@/app/lib/project/projectFile";
+import { SHARE_URL_WARN_LENGTH } from "@/app/lib/project/shareLink";
+import { cn } from "@/lib/utils";
+
+interface ProjectMenuProps {
+  projects: ProjectSummary[];
+  // Null until the library has loaded
+  currentProjectId: string | null;
+  currentProjectName: string;
+  onOpenProject: (id: string) => void;
+  onCreateProject: () => void;
+  onRenameProject: (id: string, name: string) => void;
+  onDuplicateProject: (id: string) => void;
+  onDeleteProject: (id: string) => void;
+  // Opens a .magicmove.json file as a new project
+  onImportProjectFile: (file: File) => void;
+  // Downloads the current project as a .magicmove.json file
+  onExportProjectFile: () => void;
+  // Copies a link that encodes the current project; resolves to the link
+  onCopyShareLink: () => Promise<string>;
+}
+
+function formatUpdatedAt(ms: number) {
+  return new Date(ms).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" });
+}
+
+export function ProjectMenu({
+  projects,
+  currentProjectId,
+  currentProjectName,
+  onOpenProject,
+  onCreateProject,
+  onRenameProject,
+  onDuplicateProject,
+  onDeleteProject,
+  onImportProjectFile,
+  onExportProjectFile,
+  onCopyShareLink,
+}: ProjectMenuProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [share, setShare] = useState<{ length: number } | { error: string } | null>(null);
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null);
+  // Delete asks for a second click on the same project
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+
+  const commitRename = () => {
+    if (renaming && renaming.name.trim()) onRenameProject(renaming.id, renaming.name.trim());
+    setRenaming(null);
+  };
+
+  const copyShareLink = async () => {
+    try {
+      const url = await onCopyShareLink();
+      setShare({ length: url.length });
+    } catch (e) {
+      setShare({ error: e instanceof Error ? e.message : "Failed to copy the link" });
+    }
+  };
+
+  return (
+    <Popover
+      onOpenChange={(open) => {
+        if (!open) {
+          setRenaming(null);
+          setConfirmDeleteId(null);
+          setShare(null);
+        }
+      }}
+    >
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-8 max-w-48 gap-1.5 text-xs"
+          title="Projects"
+          disabled={!currentProjectId}
+        >
+          <FolderOpen className="w-4 h-4 shrink-0" />
+          <span className="truncate">{currentProjectName}</span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 p-4" align="start">
+        <div className="flex items-center justify-between">
+          <FieldLegend className="mb-0">Projects</FieldLegend>
+          <Button
+            size="sm"
+            variant="outline"
+            className="h-7 gap-1 text-xs"
+            onClick={onCreateProject}
+          >
+            <Plus className="w-3.5 h-3.5" /> New
+          </Button>
+        </div>
+        <FieldDescription className="text-xs mt-1">
+          Saved automatically in this browser.
+        </FieldDescription>
+        <div className="mt-2 flex gap-1.5">
+          <Button
+            size="sm"
+            variant="outline"
+            className="h-7 flex-1 gap-1 text-xs"
+            title={`Open a ${PROJECT_FILE_EXTENSION} file as a new project`}
+            onClick={() => fileInputRef.current?.click()}
+          >
+            <Upload className="w-3.5 h-3.5" /> Import
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            className="h-7 flex-1 gap-1 text-xs"
+            title={`Download this project as a ${PROJECT_FILE_EXTENSION} file`}
+            onClick={onExportProjectFile}
+          >
+            <Download className="w-3.5 h-3.5" /> Export
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            className="h-7 flex-1 gap-1 text-xs"
+            title="Copy a link that opens this project"
+            onClick={() => void copyShareLink()}
+          >
+            <Link className="w-3.5 h-3.5" /> Share
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={`${PROJECT_FILE_EXTENSION},.json,application/json`}
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = "";
+              if (file) onImportProjectFile(file);
+            }}
+          />
+        </div>
+        {share &&
+          ("error" in share ? (
+            <p className="mt-2 text-xs text-destructive">{share.error}</p>
+          ) : share.length > SHARE_URL_WARN_LENGTH ? (
+            <p className="mt-2 text-xs text-warning">
+              Link copied, but it is {share.length.toLocaleString()} characters long. Chat apps may
+              cut off links over {SHARE_URL_WARN_LENGTH.toLocaleString()} characters; export a file
+              instead.
+            </p>
+          ) : (
+            <FieldDescription className="mt-2 text-xs">
+              Link copied to the clipboard.
+            </FieldDescription>
+          ))}
+
+        <Separator className="my-3" />
+
+        <ul className="max-h-72 overflow-y-auto -mx-1 space-y-0.5">
+          {projects.map((project) => {
+            const isCurrent = project.id === currentProjectId;
+            const isRenaming = renaming?.id === project.id;
+            return (
+              <li
+                key={project.id}
+                className={cn(
+                  "group flex items-center gap-1 rounded-md px-1 py-1",
+                  isCurrent ? "bg-muted" : "hover:bg-muted/50",
+                )}
+              >
+                {isRenaming ? (
+                  <Input
+                    autoFocus
+                    value={renaming.name}
+                    onChange={(e) => setRenaming({ id: project.id, name: e.target.value })}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") commitRename();
+                      if (e.key === "Escape") setRenaming(null);
+                    }}
+                    onBlur={commitRename}
+                    className="h-7 flex-1 text-xs"
+                  />
+                ) : (
+                  <button
+                    type="button"
+                    className="flex-1 min-w-0 text-left"
+                    onClick={() => !isCurrent && onOpenProject(project.id)}
+                  >
+                    <div className="truncate text-xs font-medium">{project.name}</div>
+                    <div className="text-[10px] text-muted-foreground">
+                      {formatUpdatedAt(project.updatedAt)}
+                    </div>
+                  </button>
+                )}
+                {isRenaming ? (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6"
+                    title="Save name"
+                    onMouseDown={(e) => e.preventDefault()}
+                    onClick={commitRename}
+                  >
+                    <Check className="w-3.5 h-3.5" />
+                  </Button>
+                ) : (
+                  <div className="flex items-center opacity-0 group-hover:opacity-100 transition-opacity">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6 text-muted-foreground"
+                      title="Rename"
+                      onClick={() => setRenaming({ id: project.id, name: project.name })}
+                    >
+                      <Pencil className="w-3.5 h-3.5" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6 text-muted-foreground"
+                      title="Duplicate"
+                      onClick={() => onDuplicateProject(project.id)}
+                    >
+                      <Copy className="w-3.5 h-3.5" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className={cn(
+                        "h-6 w-6 text-muted-foreground hover:text-destructive",
+                        confirmDeleteId === project.id && "text-destructive opacity-100",
+                      )}
+                      title={confirmDeleteId === project.id ? "Click again to delete" : "Delete"}
+                      onClick={() => {
+                        if (confirmDeleteId === project.id) {
+                          setConfirmDeleteId(null);
+                          onDeleteProject(project.id);
+                        } else {
+                          setConfirmDeleteId(project.id);
+                        }
+                      }}
+                    >
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </Button>
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      </PopoverContent>
+    </Popover>
+  );
+}
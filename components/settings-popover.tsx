@@ -1,5 +1,6 @@
 "use client";
 
+import { useState } from "react";
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
 import { Switch } from "@/components/ui/switch";
@@ -17,12 +18,69 @@ import {
   FieldDescription,
 } from "@/components/ui/field";
 import { MinusIcon, PlusIcon } from "lucide-react";
+import type { FrameMode } from "@/app/lib/magicMove/camera";
+import { RESOLUTION_PRESETS, type FrameSize } from "@/app/lib/magicMove/codeLayout";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectSeparator,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+// Even dimensions keep H.264 (yuv420p) happy.
+function clampDimension(value: number) {
+  const v = Math.max(320, Math.min(7680, Math.round(value)));
+  return v - (v % 2);
+}
+
+// Controlled draft that commits (clamped) on blur and follows outside changes
+// to the frame size, like loading a project or picking a preset
+function DimensionInput({
+  label,
+  value,
+  onCommit,
+}: {
+  label: string;
+  value: number;
+  onCommit: (value: number) => void;
+}) {
+  const [draft, setDraft] = useState(String(value));
+  const [shownValue, setShownValue] = useState(value);
+  if (shownValue !== value) {
+    setShownValue(value);
+    setDraft(String(value));
+  }
+  return (
+    <Input
+      type="number"
+      aria-label={label}
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={() => {
+        const next = clampDimension(Number(draft) || value);
+        setDraft(String(next));
+        onCommit(next);
+      }}
+      className="h-8 !w-20 font-mono text-xs"
+    />
+  );
+}
 
 interface SettingsPopoverProps {
   showLineNumbers: boolean;
   onShowLineNumbersChange: (checked: boolean) => void;
   startLine: number;
   onStartLineChange: (value: number) => void;
+  dimOpacity: number;
+  onDimOpacityChange: (value: number) => void;
+  highlightBar: boolean;
+  onHighlightBarChange: (checked: boolean) => void;
+  frameMode: FrameMode;
+  onFrameModeChange: (value: FrameMode) => void;
+  frameSize: FrameSize;
+  onFrameSizeChange: (value: FrameSize) => void;
   fps: number;
   onFpsChange: (value: number) => void;
   startHoldMs: number;
@@ -38,6 +96,14 @@ export function SettingsPopover({
   onShowLineNumbersChange,
   startLine,
   onStartLineChange,
+  dimOpacity,
+  onDimOpacityChange,
+  highlightBar,
+  onHighlightBarChange,
+  frameMode,
+  onFrameModeChange,
+  frameSize,
+  onFrameSizeChange,
   fps,
   onFpsChange,
   startHoldMs,
@@ -47,6 +113,12 @@ export function SettingsPopover({
   endHoldMs,
   onEndHoldMsChange,
 }: SettingsPopoverProps) {
+  const matchingPreset = RESOLUTION_PRESETS.find(
+    (p) => p.size.width === frameSize.width && p.size.height === frameSize.height,
+  );
+  const [customSize, setCustomSize] = useState(!matchingPreset);
+  const resolutionOption = customSize || !matchingPreset ? "custom" : matchingPreset.id;
+
   return (
     <div className="space-y-4">
       <FieldGroup>
@@ -107,10 +179,96 @@ export function SettingsPopover({
 
           <Separator />
 
+          <FieldGroup className="pt-1">
+            <Label className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">
+              Focus
+            </Label>
+            <Field>
+              <div className="flex justify-between items-center">
+                <FieldLabel className="text-xs">Dimmed Opacity</FieldLabel>
+                <FieldLabel className="text-xs text-muted-foreground font-mono">
+                  {Math.round(dimOpacity * 100)}%
+                </FieldLabel>
+              </div>
+              <Slider
+                value={[dimOpacity]}
+                min={0}
+                max={1}
+                step={0.05}
+                onValueChange={([v]) => onDimOpacityChange(v)}
+              />
+            </Field>
+            <Field orientation="horizontal">
+              <FieldLabel htmlFor="highlight-bar">Highlight Bar</FieldLabel>
+              <Switch
+                id="highlight-bar"
+                checked={highlightBar}
+                onCheckedChange={onHighlightBarChange}
+              />
+            </Field>
+          </FieldGroup>
+
+          <Separator />
+
           <FieldGroup className="pt-1">
             <Label className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">
               Video
             </Label>
+            <Field orientation="horizontal">
+              <FieldLabel>Resolution</FieldLabel>
+              <Select
+                value={resolutionOption}
+                onValueChange={(v) => {
+                  const preset = RESOLUTION_PRESETS.find((p) => p.id === v);
+                  setCustomSize(!preset);
+                  if (preset) onFrameSizeChange(preset.size);
+                }}
+              >
+                <SelectTrigger size="sm" className="w-40 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent position="popper">
+                  {RESOLUTION_PRESETS.map((p) => (
+                    <SelectItem key={p.id} value={p.id}>
+                      {p.label}
+                    </SelectItem>
+                  ))}
+                  <SelectSeparator />
+                  <SelectItem value="custom">Custom</SelectItem>
+                </SelectContent>
+              </Select>
+            </Field>
+            {resolutionOption === "custom" && (
+              <Field orientation="horizontal">
+                <FieldLabel className="text-xs">Size</FieldLabel>
+                <div className="flex items-center gap-1.5">
+                  <DimensionInput
+                    label="Width"
+                    value={frameSize.width}
+                    onCommit={(width) => onFrameSizeChange({ ...frameSize, width })}
+                  />
+                  <span className="text-xs text-muted-foreground">×</span>
+                  <DimensionInput
+                    label="Height"
+                    value={frameSize.height}
+                    onCommit={(height) => onFrameSizeChange({ ...frameSize, height })}
+                  />
+                </div>
+              </Field>
+            )}
+            <Field orientation="horizontal">
+              <FieldLabel>Frame</FieldLabel>
+              <Tabs
+                value={frameMode}
+                onValueChange={(v) => onFrameModeChange(v as FrameMode)}
+                className="w-fit"
+              >
+                <TabsList>
+                  <TabsTrigger value="fit">Auto-fit</TabsTrigger>
+                  <TabsTrigger value="camera">Fixed</TabsTrigger>
+                </TabsList>
+              </Tabs>
+            </Field>
             <Field orientation="horizontal">
               <FieldLabel>FPS</FieldLabel>
               <Tabs
@@ -0,0 +1,135 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { Clipboard, Presentation, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Separator } from "@/components/ui/separator";
+import { Textarea } from "@/components/ui/textarea";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Field,
+  FieldDescription,
+  FieldGroup,
+  FieldLabel,
+  FieldLegend,
+  FieldSet,
+} from "@/components/ui/field";
+import { cn } from "@/lib/utils";
+
+interface SlidevPopoverProps {
+  // Creates a project per magic-move block; throws when nothing can be read
+  onImportMarkdown: (markdown: string, sourceName: string) => Promise<void>;
+  // Copies the current steps as a magic-move block
+  onCopyMarkdown: () => Promise<void>;
+}
+
+export function SlidevPopover({ onImportMarkdown, onCopyMarkdown }: SlidevPopoverProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [markdown, setMarkdown] = useState("");
+  const [status, setStatus] = useState<{ message: string; error?: boolean } | null>(null);
+
+  const importMarkdown = async (text: string, sourceName: string) => {
+    setStatus(null);
+    try {
+      await onImportMarkdown(text, sourceName);
+      setMarkdown("");
+    } catch (e) {
+      setStatus({ message: e instanceof Error ? e.message : "Import failed", error: true });
+    }
+  };
+
+  const copyMarkdown = async () => {
+    try {
+      await onCopyMarkdown();
+      setStatus({ message: "Magic-move block copied to the clipboard." });
+    } catch (e) {
+      setStatus({ message: e instanceof Error ? e.message : "Copy failed", error: true });
+    }
+  };
+
+  return (
+    <Popover onOpenChange={(open) => !open && setStatus(null)}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="h-8 w-8" title="Slidev magic-move">
+          <Presentation className="w-4 h-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-96 p-4 mt-1" align="end">
+        <FieldSet>
+          <FieldLegend>Slidev Magic Move</FieldLegend>
+          <FieldDescription className="text-xs">
+            Each ````md magic-move block becomes a new project, one step per code fence.
+          </FieldDescription>
+
+          <FieldGroup>
+            <Field>
+              <FieldLabel htmlFor="slidev-markdown" className="text-xs">
+                Markdown
+              </FieldLabel>
+              <Textarea
+                id="slidev-markdown"
+                value={markdown}
+                onChange={(e) => setMarkdown(e.target.value)}
+                placeholder={"````md magic-move\n```ts {1-3|5}\n...\n```\n````"}
+                className="max-h-48 font-mono text-xs"
+                spellCheck={false}
+              />
+              <div className="flex gap-1.5">
+                <Button
+                  size="sm"
+                  className="h-7 flex-1 text-xs"
+                  disabled={!markdown.trim()}
+                  onClick={() => void importMarkdown(markdown, "Slidev")}
+                >
+                  Import
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="h-7 gap-1 text-xs"
+                  onClick={() => fileInputRef.current?.click()}
+                >
+                  <Upload className="w-3.5 h-3.5" /> Upload .md
+                </Button>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept=".md,.markdown,text/markdown,text/plain"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    e.target.value = "";
+                    if (file) {
+                      void file
+                        .text()
+                        .then((text) => importMarkdown(text, file.name.replace(/\.[^.]+$/, "")));
+                    }
+                  }}
+                />
+              </div>
+            </Field>
+          </FieldGroup>
+
+          <Separator />
+
+          <Button
+            size="sm"
+            variant="outline"
+            className="h-7 gap-1 text-xs"
+            onClick={() => void copyMarkdown()}
+          >
+            <Clipboard className="w-3.5 h-3.5" /> Copy steps as magic-move block
+          </Button>
+
+          {status && (
+            <p
+              className={cn("text-xs", status.error ? "text-destructive" : "text-muted-foreground")}
+            >
+              {status.message}
+            </p>
+          )}
+        </FieldSet>
+      </PopoverContent>
+    </Popover>
+  );
+}
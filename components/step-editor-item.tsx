@@ -4,48 +4,147 @@ import { Label } from "@/components/ui/label";
 import { Button } from "@/components/ui/button";
 import { Trash2 } from "lucide-react";
 import { CodeEditor } from "./code-editor";
-import type { ShikiThemeChoice } from "@/app/lib/magicMove/shikiHighlighter";
+import { AVAILABLE_LANGUAGES, type ShikiThemeChoice } from "@/app/lib/magicMove/shikiHighlighter";
+import type { EasingSpec } from "@/app/lib/magicMove/easing";
+import type { MagicMoveStepMeta, Narration } from "@/app/lib/magicMove/types";
+import { StepSettingsPopover } from "./step-settings-popover";
+import { NarrationRecorder } from "./narration-recorder";
+import { EasingPicker } from "./easing-picker";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectSeparator,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { formatName } from "@/lib/utils";
+
+const DEFAULT_LANG_OPTION = "__default";
 
 interface StepEditorItemProps {
   index: number;
   code: string;
   onCodeChange: (code: string) => void;
+  easing: EasingSpec | undefined;
+  onEasingChange: (easing: EasingSpec | undefined) => void;
   onRemove: () => void;
   canRemove: boolean;
-  language: string;
+  // Step-specific language; undefined means the project language is used.
+  lang: string | undefined;
+  onLangChange: (lang: string | undefined) => void;
+  defaultLanguage: string;
+  meta: Partial<MagicMoveStepMeta> | undefined;
+  onMetaChange: (meta: Partial<MagicMoveStepMeta>) => void;
+  defaultShowLineNumbers: boolean;
+  defaultStartLine: number;
   theme: ShikiThemeChoice;
+  holdMs: number | undefined;
+  transitionMs: number | undefined;
+  onTimingChange: (timing: { holdMs?: number; transitionMs?: number }) => void;
+  defaultHoldMs: number;
+  defaultTransitionMs: number;
+  narration: Narration | undefined;
+  onNarrationChange: (narration: Narration | undefined) => void;
+  caption: string | undefined;
+  onCaptionChange: (caption: string | undefined) => void;
 }
 
 export function StepEditorItem({
   index,
   code,
   onCodeChange,
+  easing,
+  onEasingChange,
   onRemove,
   canRemove,
-  language,
+  lang,
+  onLangChange,
+  defaultLanguage,
+  meta,
+  onMetaChange,
+  defaultShowLineNumbers,
+  defaultStartLine,
   theme,
+  holdMs,
+  transitionMs,
+  onTimingChange,
+  defaultHoldMs,
+  defaultTransitionMs,
+  narration,
+  onNarrationChange,
+  caption,
+  onCaptionChange,
 }: StepEditorItemProps) {
   return (
     <div className="group relative">
       {/* Step Header */}
       <div className="flex items-center justify-between mb-2">
         <Label className="text-xs font-mono text-muted-foreground">Step {index + 1}</Label>
-        {canRemove && (
-          <Button
-            variant="ghost"
-            size="icon"
-            className="h-6 w-6 opacity-0 group-hover:opacity-100 transition-opacity text-muted-foreground hover:text-destructive"
-            onClick={onRemove}
+        <div className="flex items-center gap-2">
+          <NarrationRecorder
+            index={index}
+            narration={narration}
+            onNarrationChange={onNarrationChange}
+          />
+          <Select
+            value={lang ?? DEFAULT_LANG_OPTION}
+            onValueChange={(v) => onLangChange(v === DEFAULT_LANG_OPTION ? undefined : v)}
           >
-            <Trash2 className="w-3.5 h-3.5" />
-          </Button>
-        )}
+            <SelectTrigger size="sm" className="w-36 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent position="popper">
+              <SelectItem value={DEFAULT_LANG_OPTION}>
+                Default ({formatName(defaultLanguage)})
+              </SelectItem>
+              <SelectSeparator />
+              {AVAILABLE_LANGUAGES.map((l) => (
+                <SelectItem key={l} value={l}>
+                  {formatName(l)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {index > 0 && (
+            <EasingPicker
+              value={easing}
+              onChange={onEasingChange}
+              defaultLabel="Project easing"
+              className="w-44"
+            />
+          )}
+          <StepSettingsPopover
+            index={index}
+            meta={meta}
+            onMetaChange={onMetaChange}
+            defaultShowLineNumbers={defaultShowLineNumbers}
+            defaultStartLine={defaultStartLine}
+            holdMs={holdMs}
+            transitionMs={transitionMs}
+            onTimingChange={onTimingChange}
+            defaultHoldMs={defaultHoldMs}
+            defaultTransitionMs={defaultTransitionMs}
+            caption={caption}
+            onCaptionChange={onCaptionChange}
+          />
+          {canRemove && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6 opacity-0 group-hover:opacity-100 transition-opacity text-muted-foreground hover:text-destructive"
+              onClick={onRemove}
+            >
+              <Trash2 className="w-3.5 h-3.5" />
+            </Button>
+          )}
+        </div>
       </div>
 
       {/* Code Editor */}
       <div className="relative">
         <CodeEditor
-          language={language}
+          language={lang ?? defaultLanguage}
           theme={theme}
           value={code}
           onChange={onCodeChange}
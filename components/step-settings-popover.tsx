@@ -0,0 +1,232 @@
+"use client";
+
+import { SlidersHorizontal } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Separator } from "@/components/ui/separator";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Field,
+  FieldDescription,
+  FieldGroup,
+  FieldLabel,
+  FieldLegend,
+  FieldSet,
+} from "@/components/ui/field";
+import type { MagicMoveStepMeta } from "@/app/lib/magicMove/types";
+import { MAX_DURATION_MS } from "@/app/lib/magicMove/timeline";
+import { parseFocusSteps } from "@/app/lib/magicMove/focus";
+
+interface StepSettingsPopoverProps {
+  index: number;
+  // Step overrides; missing fields fall back to the project settings.
+  meta: Partial<MagicMoveStepMeta> | undefined;
+  onMetaChange: (meta: Partial<MagicMoveStepMeta>) => void;
+  defaultShowLineNumbers: boolean;
+  defaultStartLine: number;
+  // Timing overrides; undefined falls back to the project timing.
+  holdMs: number | undefined;
+  transitionMs: number | undefined;
+  onTimingChange: (timing: { holdMs?: number; transitionMs?: number }) => void;
+  defaultHoldMs: number;
+  defaultTransitionMs: number;
+  caption: string | undefined;
+  onCaptionChange: (caption: string | undefined) => void;
+}
+
+function MsInput({
+  id,
+  value,
+  placeholder,
+  onChange,
+}: {
+  id: string;
+  value: number | undefined;
+  placeholder: number;
+  onChange: (ms: number | undefined) => void;
+}) {
+  return (
+    <div className="flex items-center gap-1.5">
+      <Input
+        id={id}
+        type="number"
+        min={0}
+        max={MAX_DURATION_MS}
+        step={50}
+        value={value ?? ""}
+        placeholder={String(placeholder)}
+        onChange={(e) => {
+          const raw = e.target.value;
+          const n = Math.round(Number(raw));
+          onChange(
+            raw === "" || !Number.isFinite(n)
+              ? undefined
+              : Math.max(0, Math.min(MAX_DURATION_MS, n)),
+          );
+        }}
+        className="h-7 !w-24 font-mono text-xs"
+      />
+      <span className="text-xs text-muted-foreground">ms</span>
+    </div>
+  );
+}
+
+export function StepSettingsPopover({
+  index,
+  meta,
+  onMetaChange,
+  defaultShowLineNumbers,
+  defaultStartLine,
+  holdMs,
+  transitionMs,
+  onTimingChange,
+  defaultHoldMs,
+  defaultTransitionMs,
+  caption,
+  onCaptionChange,
+}: StepSettingsPopoverProps) {
+  const hasOverrides =
+    (!!meta && Object.values(meta).some((v) => v !== undefined)) ||
+    holdMs !== undefined ||
+    transitionMs !== undefined ||
+    !!caption;
+  const highlightError = parseFocusSteps(meta?.highlight ?? "").error;
+  const linesOption = meta?.lines === undefined ? "default" : meta.lines ? "show" : "hide";
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant={hasOverrides ? "secondary" : "ghost"}
+          size="icon"
+          className="h-7 w-7"
+          title="Step settings"
+        >
+          <SlidersHorizontal className="w-3.5 h-3.5" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 p-4" align="end">
+        <FieldSet>
+          <FieldLegend>Step {index + 1}</FieldLegend>
+          <FieldDescription>Override project settings for this step</FieldDescription>
+
+          <Separator />
+
+          <FieldGroup>
+            <Field orientation="horizontal">
+              <FieldLabel className="text-xs">Line Numbers</FieldLabel>
+              <Select
+                value={linesOption}
+                onValueChange={(v) =>
+                  onMetaChange({ ...meta, lines: v === "default" ? undefined : v === "show" })
+                }
+              >
+                <SelectTrigger size="sm" className="w-32 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent position="popper">
+                  <SelectItem value="default">
+                    Default ({defaultShowLineNumbers ? "Show" : "Hide"})
+                  </SelectItem>
+                  <SelectItem value="show">Show</SelectItem>
+                  <SelectItem value="hide">Hide</SelectItem>
+                </SelectContent>
+              </Select>
+            </Field>
+            <Field orientation="horizontal">
+              <FieldLabel htmlFor={`step-${index}-start-line`} className="text-xs">
+                Start Line
+              </FieldLabel>
+              <Input
+                id={`step-${index}-start-line`}
+                type="number"
+                min={1}
+                max={9999}
+                value={meta?.startLine ?? ""}
+                placeholder={String(defaultStartLine)}
+                onChange={(e) => {
+                  const raw = e.target.value;
+                  const n = Math.floor(Number(raw));
+                  onMetaChange({
+                    ...meta,
+                    startLine: raw === "" || !Number.isFinite(n) ? undefined : Math.max(1, n),
+                  });
+                }}
+                className="h-7 !w-32 font-mono text-xs"
+              />
+            </Field>
+            <Field>
+              <FieldLabel htmlFor={`step-${index}-highlight`} className="text-xs">
+                Highlight Lines
+              </FieldLabel>
+              <Input
+                id={`step-${index}-highlight`}
+                value={meta?.highlight ?? ""}
+                placeholder="e.g. 1-3|5-8|10"
+                aria-invalid={!!highlightError}
+                onChange={(e) => onMetaChange({ ...meta, highlight: e.target.value || undefined })}
+                className="h-7 font-mono text-xs"
+              />
+              <FieldDescription className="text-xs">
+                {highlightError ??
+                  "Lines to focus; the rest are dimmed. Separate ranges with | to step through them."}
+              </FieldDescription>
+            </Field>
+
+            <Separator />
+
+            <Field orientation="horizontal">
+              <FieldLabel htmlFor={`step-${index}-hold`} className="text-xs">
+                Hold
+              </FieldLabel>
+              <MsInput
+                id={`step-${index}-hold`}
+                value={holdMs}
+                placeholder={defaultHoldMs}
+                onChange={(holdMs) => onTimingChange({ holdMs, transitionMs })}
+              />
+            </Field>
+            {index > 0 && (
+              <Field orientation="horizontal">
+                <FieldLabel htmlFor={`step-${index}-transition`} className="text-xs">
+                  Transition In
+                </FieldLabel>
+                <MsInput
+                  id={`step-${index}-transition`}
+                  value={transitionMs}
+                  placeholder={defaultTransitionMs}
+                  onChange={(transitionMs) => onTimingChange({ holdMs, transitionMs })}
+                />
+              </Field>
+            )}
+            <FieldDescription className="text-xs">
+              Leave empty to use the project timing. A recorded narration can stretch the hold.
+            </FieldDescription>
+
+            <Separator />
+
+            <Field>
+              <FieldLabel htmlFor={`step-${index}-caption`} className="text-xs">
+                Caption
+              </FieldLabel>
+              <Input
+                id={`step-${index}-caption`}
+                value={caption ?? ""}
+                placeholder="Shown under the code"
+                onChange={(e) => onCaptionChange(e.target.value || undefined)}
+                className="h-7 text-xs"
+              />
+            </Field>
+          </FieldGroup>
+        </FieldSet>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -17,9 +17,17 @@ import {
   AVAILABLE_THEMES,
   type ShikiThemeChoice,
 } from "@/app/lib/magicMove/shikiHighlighter";
+import type { FrameMode } from "@/app/lib/magicMove/camera";
+import type { FrameSize } from "@/app/lib/magicMove/codeLayout";
+import type { ProjectSummary } from "@/app/lib/project/project";
+import type { SimpleStep } from "@/app/lib/magicMove/types";
 import { SettingsPopover } from "./settings-popover";
+import { ProjectMenu } from "./project-menu";
+import { SlidevPopover } from "./slidev-popover";
+import { GitHistoryPopover } from "./git-history-popover";
 import { Badge } from "@/components/ui/badge";
 import { FieldLabel } from "./ui/field";
+import { formatName } from "@/lib/utils";
 
 interface StepsEditorHeaderProps {
   stepCount: number;
@@ -31,6 +39,14 @@ interface StepsEditorHeaderProps {
   onShowLineNumbersChange: (checked: boolean) => void;
   startLine: number;
   onStartLineChange: (value: number) => void;
+  dimOpacity: number;
+  onDimOpacityChange: (value: number) => void;
+  highlightBar: boolean;
+  onHighlightBarChange: (checked: boolean) => void;
+  frameMode: FrameMode;
+  onFrameModeChange: (value: FrameMode) => void;
+  frameSize: FrameSize;
+  onFrameSizeChange: (value: FrameSize) => void;
   fps: number;
   onFpsChange: (value: number) => void;
   startHoldMs: number;
@@ -40,14 +56,24 @@ interface StepsEditorHeaderProps {
   endHoldMs: number;
   onEndHoldMsChange: (value: number) => void;
   onAddStep: () => void;
-}
-
-function formatName(name: string) {
-  return name
-    .split("-")
-    .filter(Boolean)
-    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
-    .join(" ");
+  projects: ProjectSummary[];
+  currentProjectId: string | null;
+  currentProjectName: string;
+  onOpenProject: (id: string) => void;
+  onCreateProject: () => void;
+  onRenameProject: (id: string, name: string) => void;
+  onDuplicateProject: (id: string) => void;
+  onDeleteProject: (id: string) => void;
+  onImportProjectFile: (file: File) => void;
+  onExportProjectFile: () => void;
+  onCopyShareLink: () => Promise<string>;
+  onImportMarkdown: (markdown: string, sourceName: string) => Promise<void>;
+  onCopyMarkdown: () => Promise<void>;
+  onImportGitHistory: (history: {
+    name: string;
+    lang: string;
+    steps: SimpleStep[];
+  }) => Promise<void>;
 }
 
 export function StepsEditorHeader({
@@ -60,6 +86,14 @@ export function StepsEditorHeader({
   onShowLineNumbersChange,
   startLine,
   onStartLineChange,
+  dimOpacity,
+  onDimOpacityChange,
+  highlightBar,
+  onHighlightBarChange,
+  frameMode,
+  onFrameModeChange,
+  frameSize,
+  onFrameSizeChange,
   fps,
   onFpsChange,
   startHoldMs,
@@ -69,10 +103,38 @@ export function StepsEditorHeader({
   endHoldMs,
   onEndHoldMsChange,
   onAddStep,
+  projects,
+  currentProjectId,
+  currentProjectName,
+  onOpenProject,
+  onCreateProject,
+  onRenameProject,
+  onDuplicateProject,
+  onDeleteProject,
+  onImportProjectFile,
+  onExportProjectFile,
+  onCopyShareLink,
+  onImportMarkdown,
+  onCopyMarkdown,
+  onImportGitHistory,
 }: StepsEditorHeaderProps) {
   return (
     <div className="flex-none flex items-center justify-between px-4 py-2 border-b bg-background/50 backdrop-blur-sm sticky top-0 z-10 gap-2">
       <div className="flex items-center gap-2">
+        <ProjectMenu
+          projects={projects}
+          currentProjectId={currentProjectId}
+          currentProjectName={currentProjectName}
+          onOpenProject={onOpenProject}
+          onCreateProject={onCreateProject}
+          onRenameProject={onRenameProject}
+          onDuplicateProject={onDuplicateProject}
+          onDeleteProject={onDeleteProject}
+          onImportProjectFile={onImportProjectFile}
+          onExportProjectFile={onExportProjectFile}
+          onCopyShareLink={onCopyShareLink}
+        />
+        <Separator orientation="vertical" className="h-4" />
         <Layers className="w-4 h-4 text-muted-foreground" />
         <FieldLabel className="">Steps</FieldLabel>
         <Badge variant="secondary" className="font-mono mt-0.5">
@@ -121,6 +183,9 @@ export function StepsEditorHeader({
 
         <Separator orientation="vertical" />
 
+        <SlidevPopover onImportMarkdown={onImportMarkdown} onCopyMarkdown={onCopyMarkdown} />
+        <GitHistoryPopover onImportHistory={onImportGitHistory} />
+
         <Popover>
           <PopoverTrigger asChild>
             <Button variant="ghost" size="icon" className="h-8 w-8">
@@ -133,6 +198,14 @@ export function StepsEditorHeader({
               onShowLineNumbersChange={onShowLineNumbersChange}
               startLine={startLine}
               onStartLineChange={onStartLineChange}
+              dimOpacity={dimOpacity}
+              onDimOpacityChange={onDimOpacityChange}
+              highlightBar={highlightBar}
+              onHighlightBarChange={onHighlightBarChange}
+              frameMode={frameMode}
+              onFrameModeChange={onFrameModeChange}
+              frameSize={frameSize}
+              onFrameSizeChange={onFrameSizeChange}
               fps={fps}
               onFpsChange={onFpsChange}
               startHoldMs={startHoldMs}
@@ -9,6 +9,9 @@ import { StepsEditorHeader } from "./steps-editor-header";
 import { StepEditorItem } from "./step-editor-item";
 import type { SimpleStep } from "@/app/lib/magicMove/types";
 import type { ShikiThemeChoice } from "@/app/lib/magicMove/shikiHighlighter";
+import type { FrameMode } from "@/app/lib/magicMove/camera";
+import type { FrameSize } from "@/app/lib/magicMove/codeLayout";
+import type { ProjectSummary } from "@/app/lib/project/project";
 
 interface StepsEditorProps {
   steps: SimpleStep[];
@@ -20,6 +23,14 @@ interface StepsEditorProps {
   onShowLineNumbersChange: (checked: boolean) => void;
   startLine: number;
   onStartLineChange: (value: number) => void;
+  dimOpacity: number;
+  onDimOpacityChange: (value: number) => void;
+  highlightBar: boolean;
+  onHighlightBarChange: (checked: boolean) => void;
+  frameMode: FrameMode;
+  onFrameModeChange: (value: FrameMode) => void;
+  frameSize: FrameSize;
+  onFrameSizeChange: (value: FrameSize) => void;
   fps: number;
   onFpsChange: (value: number) => void;
   startHoldMs: number;
@@ -28,9 +39,29 @@ interface StepsEditorProps {
   onBetweenHoldMsChange: (value: number) => void;
   endHoldMs: number;
   onEndHoldMsChange: (value: number) => void;
+  // Project transition duration, shown as the default of step overrides
+  transitionMs: number;
   onAddStep: () => void;
+  projects: ProjectSummary[];
+  currentProjectId: string | null;
+  currentProjectName: string;
+  onOpenProject: (id: string) => void;
+  onCreateProject: () => void;
+  onRenameProject: (id: string, name: string) => void;
+  onDuplicateProject: (id: string) => void;
+  onDeleteProject: (id: string) => void;
+  onImportProjectFile: (file: File) => void;
+  onExportProjectFile: () => void;
+  onCopyShareLink: () => Promise<string>;
+  onImportMarkdown: (markdown: string, sourceName: string) => Promise<void>;
+  onCopyMarkdown: () => Promise<void>;
+  onImportGitHistory: (history: {
+    name: string;
+    lang: string;
+    steps: SimpleStep[];
+  }) => Promise<void>;
   onRemoveStep: (index: number) => void;
-  onUpdateStep: (index: number, code: string) => void;
+  onUpdateStep: (index: number, patch: Partial<SimpleStep>) => void;
 }
 
 export function StepsEditor({
@@ -43,6 +74,14 @@ export function StepsEditor({
   onShowLineNumbersChange,
   startLine,
   onStartLineChange,
+  dimOpacity,
+  onDimOpacityChange,
+  highlightBar,
+  onHighlightBarChange,
+  frameMode,
+  onFrameModeChange,
+  frameSize,
+  onFrameSizeChange,
   fps,
   onFpsChange,
   startHoldMs,
@@ -51,7 +90,22 @@ export function StepsEditor({
   onBetweenHoldMsChange,
   endHoldMs,
   onEndHoldMsChange,
+  transitionMs,
   onAddStep,
+  projects,
+  currentProjectId,
+  currentProjectName,
+  onOpenProject,
+  onCreateProject,
+  onRenameProject,
+  onDuplicateProject,
+  onDeleteProject,
+  onImportProjectFile,
+  onExportProjectFile,
+  onCopyShareLink,
+  onImportMarkdown,
+  onCopyMarkdown,
+  onImportGitHistory,
   onRemoveStep,
   onUpdateStep,
 }: StepsEditorProps) {
@@ -85,6 +139,14 @@ export function StepsEditor({
         onShowLineNumbersChange={onShowLineNumbersChange}
         startLine={startLine}
         onStartLineChange={onStartLineChange}
+        dimOpacity={dimOpacity}
+        onDimOpacityChange={onDimOpacityChange}
+        highlightBar={highlightBar}
+        onHighlightBarChange={onHighlightBarChange}
+        frameMode={frameMode}
+        onFrameModeChange={onFrameModeChange}
+        frameSize={frameSize}
+        onFrameSizeChange={onFrameSizeChange}
         fps={fps}
         onFpsChange={onFpsChange}
         startHoldMs={startHoldMs}
@@ -94,6 +156,20 @@ export function StepsEditor({
         endHoldMs={endHoldMs}
         onEndHoldMsChange={onEndHoldMsChange}
         onAddStep={onAddStep}
+        projects={projects}
+        currentProjectId={currentProjectId}
+        currentProjectName={currentProjectName}
+        onOpenProject={onOpenProject}
+        onCreateProject={onCreateProject}
+        onRenameProject={onRenameProject}
+        onDuplicateProject={onDuplicateProject}
+        onDeleteProject={onDeleteProject}
+        onImportProjectFile={onImportProjectFile}
+        onExportProjectFile={onExportProjectFile}
+        onCopyShareLink={onCopyShareLink}
+        onImportMarkdown={onImportMarkdown}
+        onCopyMarkdown={onCopyMarkdown}
+        onImportGitHistory={onImportGitHistory}
       />
 
       <ScrollArea ref={scrollRef} className="flex-1 w-full min-h-0">
@@ -103,11 +179,36 @@ export function StepsEditor({
               key={index}
               index={index}
               code={step.code}
-              onCodeChange={(code) => onUpdateStep(index, code)}
+              onCodeChange={(code) => onUpdateStep(index, { code })}
+              easing={step.easing}
+              onEasingChange={(easing) => onUpdateStep(index, { easing })}
               onRemove={() => onRemoveStep(index)}
               canRemove={steps.length > 1}
-              language={selectedLang}
+              lang={step.lang}
+              onLangChange={(lang) => onUpdateStep(index, { lang })}
+              defaultLanguage={selectedLang}
+              meta={step.meta}
+              onMetaChange={(meta) => onUpdateStep(index, { meta })}
+              defaultShowLineNumbers={showLineNumbers}
+              defaultStartLine={startLine}
               theme={theme}
+              holdMs={step.holdMs}
+              transitionMs={step.transitionMs}
+              onTimingChange={(timing) => onUpdateStep(index, timing)}
+              defaultHoldMs={
+                steps.length === 1
+                  ? startHoldMs + endHoldMs
+                  : index === 0
+                    ? startHoldMs
+                    : index === steps.length - 1
+                      ? endHoldMs
+                      : betweenHoldMs
+              }
+              defaultTransitionMs={transitionMs}
+              narration={step.narration}
+              onNarrationChange={(narration) => onUpdateStep(index, { narration })}
+              caption={step.caption}
+              onCaptionChange={(caption) => onUpdateStep(index, { caption })}
             />
           ))}
 
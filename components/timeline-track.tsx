@@ -0,0 +1,119 @@
+"use client";
+
+import { useRef } from "react";
+import type { TimelineSegment, TimelineStop } from "@/app/lib/magicMove/timeline";
+import { cn } from "@/lib/utils";
+
+interface TimelineTrackProps {
+  segments: TimelineSegment[];
+  stops: TimelineStop[];
+  totalMs: number;
+  playheadMs: number;
+  // Resting frame of each stop as an image URL
+  thumbnails: string[];
+  onSeek: (ms: number) => void;
+  onSegmentDurationChange: (index: number, durationMs: number) => void;
+  disabled?: boolean;
+}
+
+function stopLabel(stops: TimelineStop[], k: number) {
+  const stop = stops[k];
+  if (!stop) return "";
+  const hasFocusStates = stops.some((s) => s.stepIndex === stop.stepIndex && s.focusIndex > 0);
+  return hasFocusStates ? `${stop.stepIndex + 1}.${stop.focusIndex + 1}` : `${stop.stepIndex + 1}`;
+}
+
+export function TimelineTrack({
+  segments,
+  stops,
+  totalMs,
+  playheadMs,
+  thumbnails,
+  onSeek,
+  onSegmentDurationChange,
+  disabled = false,
+}: TimelineTrackProps) {
+  const trackRef = useRef<HTMLDivElement>(null);
+
+  // Scale is fixed for the whole drag so the block under the pointer does not
+  // run away as the total duration changes.
+  const onResizeStart = (e: React.PointerEvent, index: number) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const track = trackRef.current;
+    const segment = segments[index];
+    if (!track || !segment || totalMs <= 0 || track.clientWidth <= 0) return;
+    const msPerPx = totalMs / track.clientWidth;
+    const startX = e.clientX;
+
+    const onMove = (ev: PointerEvent) => {
+      onSegmentDurationChange(index, segment.durationMs + (ev.clientX - startX) * msPerPx);
+    };
+    const onUp = () => {
+      window.removeEventListener("pointermove", onMove);
+      window.removeEventListener("pointerup", onUp);
+    };
+    window.addEventListener("pointermove", onMove);
+    window.addEventListener("pointerup", onUp);
+  };
+
+  const percent = (ms: number) => (totalMs <= 0 ? 0 : (ms / totalMs) * 100);
+
+  return (
+    <div
+      className={cn(
+        "flex-none border-t bg-background/95 px-3 pt-3",
+        disabled && "pointer-events-none opacity-50",
+      )}
+    >
+      <div ref={trackRef} className="relative h-14 select-none">
+        {segments.map((segment, index) => {
+          const isHold = segment.kind === "hold";
+          const k = isHold ? segment.stop : segment.from + 1;
+          const label = stopLabel(stops, k);
+          const thumbnail = isHold ? thumbnails[segment.stop] : undefined;
+          return (
+            <div
+              key={index}
+              role="button"
+              title={
+                isHold
+                  ? `Step ${label} · ${Math.round(segment.durationMs)}ms`
+                  : `Transition to step ${label} · ${Math.round(segment.durationMs)}ms`
+              }
+              onClick={() => onSeek(segment.startMs)}
+              className={cn(
+                "absolute inset-y-0 overflow-hidden rounded-sm border cursor-pointer",
+                isHold
+                  ? "bg-muted bg-cover bg-left-top hover:ring-1 hover:ring-primary"
+                  : "my-3 border-dashed bg-primary/15 hover:bg-primary/25",
+              )}
+              style={{
+                left: `${percent(segment.startMs)}%`,
+                width: `${percent(segment.durationMs)}%`,
+                minWidth: 4,
+                backgroundImage: thumbnail ? `url(${thumbnail})` : undefined,
+              }}
+            >
+              {isHold && (
+                <span className="absolute left-1 bottom-1 rounded bg-background/80 px-1 text-[10px] font-mono leading-tight">
+                  {label}
+                </span>
+              )}
+              <div
+                className="absolute inset-y-0 right-0 w-1.5 cursor-ew-resize hover:bg-primary/60"
+                title="Drag to change duration"
+                onPointerDown={(e) => onResizeStart(e, index)}
+                onClick={(e) => e.stopPropagation()}
+              />
+            </div>
+          );
+        })}
+        <div
+          className="pointer-events-none absolute -inset-y-1 w-px bg-primary"
+          style={{ left: `${percent(Math.min(playheadMs, totalMs))}%` }}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,15 @@
+// Copies the FFmpeg core (JS + wasm) into public/ffmpeg so MP4 conversion loads
+// it from the app's own origin instead of a CDN. Runs before dev and build.
+import { copyFile, mkdir } from "node:fs/promises";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+
+// The package only exports its entry points; the ESM build sits next to the wasm
+const source = path.dirname(fileURLToPath(import.meta.resolve("@ffmpeg/core")));
+const target = path.join(process.cwd(), "public/ffmpeg");
+
+await mkdir(target, { recursive: true });
+for (const file of ["ffmpeg-core.js", "ffmpeg-core.wasm"]) {
+  await copyFile(path.join(source, file), path.join(target, file));
+}
+console.log(`Copied FFmpeg core to ${path.relative(process.cwd(), target)}`);